@@ -1,12 +1,44 @@
 
-import React, { useState, useCallback, useRef } from 'react';
-import { Scene, SceneStatus, LogEntry } from './types';
-import { analyzeScript, generateSceneImage, delay } from './services/geminiService';
-import { RATE_LIMIT_DELAY_MS } from './constants';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { Scene, SceneStatus, SceneEdit, SceneTake, LogEntry, ProjectSnapshot, ProjectSettings, ErrorCode, Character, StyleProfile } from './types';
+import { analyzeScript, generateSceneImage, rewriteBlockedPrompt, checkSceneImage } from './services/geminiService';
+import { saveSession, loadSession, clearSession, recoverInterruptedScenes, normalizeSettings } from './services/projectStore';
+import { exportProjectBundle, importProjectBundle } from './services/projectBundle';
+import { renderAnimatic, getAnimaticDuration } from './services/animaticExport';
+import { buildContactSheetHtml, renderContactSheetPdf, ContactSheetCover } from './services/contactSheetExport';
+import { processExportImage, exportedImageExtension } from './services/imageExport';
+import { getImageProvider } from './services/imageProviders';
+import { configureRateLimiter } from './services/rateLimiter';
+import { loadStyleProfiles, saveStyleProfiles, resolveStyleProfile } from './services/styleProfileStore';
+import { classifyError, ERROR_CODE_LABELS } from './services/errors';
+import { AUTOSAVE_DEBOUNCE_MS, NARRATION_MATCH_THRESHOLD, TEXT_LIMITER_KEY, PROJECT_SNAPSHOT_VERSION, DEFAULT_PROJECT_SETTINGS, GOOGLE_PROVIDER_ID, IMAGE_MODEL_LABELS, DEFAULT_CHARACTERS, MAX_SCENES, ANALYSIS_CHUNK_CHARS, ANALYSIS_CONTEXT_CHARS, SCRIPT_LANGUAGES } from './constants';
 import { LogViewer } from './components/LogViewer';
 import { SceneCard } from './components/SceneCard';
 import { StatsDashboard } from './components/StatsDashboard';
+import { ProviderSettings } from './components/ProviderSettings';
+import { CharacterLibrary } from './components/CharacterLibrary';
+import { StyleProfiles } from './components/StyleProfiles';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { AnalysisSettings } from './components/AnalysisSettings';
+import { ReanalysisReview } from './components/ReanalysisReview';
+import { AnimaticExport } from './components/AnimaticExport';
+import { TimelineExport } from './components/TimelineExport';
+import { ContactSheetExport } from './components/ContactSheetExport';
+import { ImageExportSettings } from './components/ImageExportSettings';
+import { NarrationReview } from './components/NarrationReview';
 import { createLog } from './utils/logUtils';
+import { SceneOperation, SceneOpResult, applySceneOperation, deleteScenes, moveScene, normalizeScenes, renumberScenes } from './utils/sceneOps';
+import { createTake, addTake, getSelectedTake, setTakeQa, getBestQaTake } from './utils/takeUtils';
+import { normalizeCharacters } from './utils/characterUtils';
+import { ScenePromptOptions, validatePromptTemplate } from './utils/promptTemplate';
+import { splitScriptIntoChunks } from './utils/scriptChunks';
+import { resolveScriptLanguage } from './utils/languageUtils';
+import { formatDuration } from './utils/durationUtils';
+import { TimelineFormat, buildSceneTimeline, renderTimeline } from './utils/timelineExport';
+import { exportedImageName, sceneFileBase } from './utils/fileUtils';
+import { getSceneStats } from './utils/sceneStats';
+import { SceneAlignment, parseNarrationCues, alignNarration } from './utils/narrationAlign';
+import { ReviewedSection, planScriptSections, reconcileSectionScenes, applyScriptSections } from './utils/scriptDiff';
 // @ts-ignore
 import JSZip from 'jszip';
 // @ts-ignore
@@ -15,22 +47,120 @@ import saveAs from 'file-saver';
 const App: React.FC = () => {
   const [apiKey, setApiKey] = useState(process.env.API_KEY || '');
   const [script, setScript] = useState('');
+  const [analyzedScript, setAnalyzedScript] = useState(''); // Script the current scenes came from; '' = unknown
+  const [settings, setSettings] = useState<ProjectSettings>(DEFAULT_PROJECT_SETTINGS);
+  const [endpointApiKey, setEndpointApiKey] = useState(''); // Kept in memory only, like the Gemini key
+  const [characters, setCharacters] = useState<Character[]>(DEFAULT_CHARACTERS);
+  const [styleProfiles, setStyleProfiles] = useState<StyleProfile[]>(loadStyleProfiles); // Shared by all projects
+  const activeStyle = resolveStyleProfile(styleProfiles, settings.styleProfileId);
+  const promptOptions: ScenePromptOptions = { characters, style: activeStyle, template: settings.promptTemplate, imageTextLanguage: settings.imageTextLanguage };
   const [scenes, setScenes] = useState<Scene[]>([]);
+  // Always-current view of scenes for the async queue (avoids stale closures)
+  const scenesRef = useRef<Scene[]>(scenes);
+  scenesRef.current = scenes;
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set()); // New: Selection State
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<{ done: number; total: number } | null>(null);
+  // Result of a partial re-analysis waiting for review
+  const [reanalysis, setReanalysis] = useState<{ script: string; sections: ReviewedSection[]; newCharacters: Character[] } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Structural edits and generation would be overwritten (or land on the wrong scenes) when a
+  // running analysis or a re-analysis under review is applied, so both wait for it
+  const isSceneListLocked = isProcessing || isAnalyzing || reanalysis !== null;
   const [isZipping, setIsZipping] = useState(false);
+  const [isBundling, setIsBundling] = useState(false);
+  const [exportAllTakes, setExportAllTakes] = useState(false);
+  const [narrationReview, setNarrationReview] = useState<SceneAlignment[] | null>(null); // Proposed timing awaiting review
+  const [animaticProgress, setAnimaticProgress] = useState<number | null>(null); // 0..1 while rendering
+  const [contactSheetProgress, setContactSheetProgress] = useState<{ done: number; total: number } | null>(null); // PDF pages rendered
+  const [errorFilter, setErrorFilter] = useState<ErrorCode | 'ALL'>('ALL'); // Gallery filter + bulk retry scope
+
+  // Persistence: autosave stays off until the user decided whether to restore the last session
+  const [restoreCandidate, setRestoreCandidate] = useState<ProjectSnapshot | null>(null);
+  const [isSessionReady, setIsSessionReady] = useState(false);
   
   // Ref to control the processing loop
   const stopProcessingRef = useRef(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const animaticAbortRef = useRef<AbortController | null>(null);
 
   // Helper to append logs
   const log = useCallback((message: string, type: LogEntry['type'] = 'info') => {
     setLogs(prev => [...prev, createLog(message, type)]);
   }, []);
 
+  // --- Session Persistence (IndexedDB) ---
+  useEffect(() => {
+    loadSession()
+      .then(snapshot => {
+        if (snapshot && (snapshot.scenes.length > 0 || snapshot.script.trim())) {
+          setRestoreCandidate(snapshot);
+        } else {
+          setIsSessionReady(true);
+        }
+      })
+      .catch(error => {
+        console.error("Session load failed:", error);
+        log(`저장된 세션을 불러오지 못했습니다: ${error.message}`, 'warning');
+        setIsSessionReady(true);
+      });
+  }, [log]);
+
+  useEffect(() => {
+    if (!isSessionReady) return;
+    const timer = setTimeout(() => {
+      saveSession({
+        version: PROJECT_SNAPSHOT_VERSION,
+        savedAt: new Date().toISOString(),
+        script,
+        analyzedScript,
+        settings,
+        characters,
+        scenes,
+        logs,
+        selectedIds: Array.from(selectedIds),
+      }).catch(error => {
+        console.error("Session save failed:", error);
+      });
+    }, AUTOSAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [isSessionReady, script, analyzedScript, settings, characters, scenes, logs, selectedIds]);
+
+  useEffect(() => {
+    saveStyleProfiles(styleProfiles);
+  }, [styleProfiles]);
+
+  // Applied whenever the budgets change, so analysis before the first generation run uses them too
+  useEffect(() => {
+    configureRateLimiter(settings.requestsPerMinute, { [TEXT_LIMITER_KEY]: settings.textRequestsPerMinute });
+  }, [settings.requestsPerMinute, settings.textRequestsPerMinute]);
+
+  const handleRestoreSession = () => {
+    if (!restoreCandidate) return;
+    const { scenes: restoredScenes, recoveredCount } = recoverInterruptedScenes(normalizeScenes(restoreCandidate.scenes));
+    setScript(restoreCandidate.script);
+    setAnalyzedScript(restoreCandidate.analyzedScript ?? '');
+    setSettings(normalizeSettings(restoreCandidate.settings));
+    setCharacters(normalizeCharacters(restoreCandidate));
+    setScenes(restoredScenes);
+    setSelectedIds(new Set(restoreCandidate.selectedIds));
+    setLogs([...restoreCandidate.logs, createLog(`이전 세션을 복원했습니다. (장면 ${restoredScenes.length}개)`, 'success')]);
+    if (recoveredCount > 0) {
+      log(`중단된 장면 ${recoveredCount}개를 대기 상태로 되돌렸습니다. '생성 시작'으로 이어서 진행하세요.`, 'warning');
+    }
+    setRestoreCandidate(null);
+    setIsSessionReady(true);
+  };
+
+  const handleDiscardSession = () => {
+    clearSession().catch(error => console.error("Session clear failed:", error));
+    setRestoreCandidate(null);
+    setIsSessionReady(true);
+    log("이전 세션을 삭제하고 새로 시작합니다.", 'info');
+  };
+
   // --- Selection Logic ---
   const toggleSelection = (id: number) => {
     if (isProcessing) return; // Prevent changing selection while processing
@@ -52,7 +182,7 @@ const App: React.FC = () => {
   };
 
   // --- 1. Analyze Script Phase ---
-  const handleAnalyze = async () => {
+  const handleAnalyze = async (fromScratch = false) => {
     if (!apiKey) {
       log("API 키가 없습니다.", 'error');
       return;
@@ -61,70 +191,268 @@ const App: React.FC = () => {
       log("대본을 입력해주세요.", 'warning');
       return;
     }
+    if (scenes.length > 0) {
+      if (analyzedScript && !fromScratch) {
+        await reanalyzeChanges();
+        return;
+      }
+      if (!window.confirm('기존 장면과 이미지가 모두 지워집니다. 대본을 처음부터 다시 분석할까요?')) return;
+    }
 
+    const analyzedText = script;
     setIsAnalyzing(true);
+    setAnalyzedScript('');
     setScenes([]);
     setSelectedIds(new Set()); // Clear selection
-    log("Gemini 2.5 Flash로 대본 상세 분석을 시작합니다 (최대 분할)...", 'info');
+    const chunkCount = splitScriptIntoChunks(script, ANALYSIS_CHUNK_CHARS, ANALYSIS_CONTEXT_CHARS).length;
+    setAnalysisProgress({ done: 0, total: chunkCount });
+    const language = resolveScriptLanguage(settings.analysis.language, script);
+    const languageSource = settings.analysis.language === 'auto' ? ' 자동 감지' : '';
+    log(`Gemini 2.5 Flash로 대본 상세 분석을 시작합니다 (${SCRIPT_LANGUAGES[language].label}${languageSource}, ${chunkCount}개 구간)...`, 'info');
 
     try {
-      const analyzedScenes = await analyzeScript(apiKey, script);
-      setScenes(analyzedScenes);
-      log(`분석 완료. 총 ${analyzedScenes.length}개의 장면을 찾았습니다.`, 'success');
+      const result = await analyzeScript(apiKey, script, characters, { ...settings.analysis, language }, (progress) => {
+        // Scenes show up chunk by chunk; renumbering keeps ids gapless if the user edited meanwhile
+        setScenes(prev => renumberScenes([...prev, ...progress.scenes]).scenes);
+        setAnalysisProgress({ done: progress.chunkIndex, total: progress.chunkCount });
+        log(`구간 ${progress.chunkIndex}/${progress.chunkCount} 분석 완료. (장면 ${progress.scenes.length}개 추가)`, 'info');
+        if (progress.salvaged) {
+          log(`구간 ${progress.chunkIndex}의 응답이 중간에 끊겨 완성된 장면만 사용했습니다. 누락된 부분은 장면 편집으로 보완하세요.`, 'warning');
+        }
+        if (progress.newCharacters.length > 0) {
+          setCharacters(prev => [...prev, ...progress.newCharacters]);
+          log(`반복 등장 인물 ${progress.newCharacters.length}명을 캐릭터 라이브러리에 추가했습니다: ${progress.newCharacters.map(c => c.name).join(', ')}`, 'info');
+        }
+      });
+      setAnalyzedScript(analyzedText);
+      log(`분석 완료. 총 ${result.scenes.length}개의 장면을 찾았습니다.`, 'success');
+      if (result.reachedSceneLimit) {
+        const sceneLimit = Math.min(MAX_SCENES, settings.analysis.maxSceneCount || MAX_SCENES);
+        log(`장면 수가 최대치(${sceneLimit}개)에 도달해 나머지 대본은 분석하지 않았습니다.`, 'warning');
+      }
     } catch (error: any) {
+      // Scenes from the chunks that finished stay in the gallery
       log(`분석 실패: ${error.message}`, 'error');
     } finally {
       setIsAnalyzing(false);
+      setAnalysisProgress(null);
     }
   };
 
+  // Re-analyzes only the paragraphs changed since the last analysis; the result is applied after review
+  const reanalyzeChanges = async () => {
+    const targetScript = script;
+    const sections = planScriptSections(analyzedScript, targetScript, scenes);
+    if (sections.length === 0) {
+      log("마지막 분석 이후 대본이 바뀌지 않았습니다.", 'info');
+      return;
+    }
+
+    setIsAnalyzing(true);
+    setAnalysisProgress({ done: 0, total: sections.length });
+    log(`변경된 구간 ${sections.length}개만 다시 분석합니다. 나머지 장면과 이미지는 유지됩니다.`, 'info');
+
+    const { analysis } = settings;
+    const sceneLimit = Math.min(MAX_SCENES, analysis.maxSceneCount || MAX_SCENES);
+    let sceneCount = scenes.length - sections.reduce((sum, s) => sum + s.removedScenes.length, 0);
+    const newCharacters: Character[] = [];
+    const reviewed: ReviewedSection[] = [];
+    try {
+      for (const [index, section] of sections.entries()) {
+        let analyzed: Scene[] = [];
+        const budget = sceneLimit - sceneCount;
+        if (section.newText && budget <= 0) {
+          log(`장면 수가 최대치(${sceneLimit}개)에 도달해 변경 구간 ${index + 1}은(는) 분석하지 않았습니다.`, 'warning');
+        } else if (section.newText) {
+          const result = await analyzeScript(apiKey, section.newText, [...characters, ...newCharacters], {
+            ...analysis,
+            // Detected on the whole script so a short section can't switch languages
+            language: resolveScriptLanguage(analysis.language, targetScript),
+            // A scene target applies to the whole script, so each section gets its share
+            targetSceneCount: analysis.targetSceneCount > 0
+              ? Math.max(1, Math.round(analysis.targetSceneCount * section.newText.length / targetScript.length))
+              : 0,
+            maxSceneCount: budget,
+          }, (progress) => {
+            if (progress.salvaged) {
+              log(`변경 구간 ${index + 1}의 응답이 중간에 끊겨 완성된 장면만 사용했습니다.`, 'warning');
+            }
+          }, { context: section.context, lastScene: scenes[section.sceneStart - 1] });
+          analyzed = result.scenes;
+          newCharacters.push(...result.newCharacters);
+        }
+        sceneCount += analyzed.length;
+        reviewed.push({ ...section, changes: reconcileSectionScenes(section.removedScenes, analyzed) });
+        setAnalysisProgress({ done: index + 1, total: sections.length });
+      }
+      setReanalysis({ script: targetScript, sections: reviewed, newCharacters });
+      log("변경 구간 분석 완료. 적용 전에 변경 사항을 검토하세요.", 'success');
+    } catch (error: any) {
+      log(`분석 실패: ${error.message} (기존 장면은 그대로입니다)`, 'error');
+    } finally {
+      setIsAnalyzing(false);
+      setAnalysisProgress(null);
+    }
+  };
+
+  const handleApplyReanalysis = () => {
+    if (!reanalysis) return;
+    const changes = reanalysis.sections.flatMap(s => s.changes);
+    const count = (kind: string) => changes.filter(c => c.kind === kind).length;
+    applySceneChange(applyScriptSections(scenesRef.current, reanalysis.sections));
+    if (reanalysis.newCharacters.length > 0) {
+      setCharacters(prev => [...prev, ...reanalysis.newCharacters]);
+      log(`반복 등장 인물 ${reanalysis.newCharacters.length}명을 캐릭터 라이브러리에 추가했습니다: ${reanalysis.newCharacters.map(c => c.name).join(', ')}`, 'info');
+    }
+    setAnalyzedScript(reanalysis.script);
+    setReanalysis(null);
+    log(`대본 변경 사항을 적용했습니다. (유지 ${count('kept')}, 변경 ${count('changed')}, 추가 ${count('added')}, 삭제 ${count('removed')})`, 'success');
+  };
+
+  const handleCancelReanalysis = () => {
+    setReanalysis(null);
+    log("다시 분석한 결과를 적용하지 않았습니다.", 'info');
+  };
+
   // --- 2. Image Generation Loop ---
   const processQueue = async (scenesToProcess: Scene[], isRetryMode = false) => {
+    const provider = getImageProvider(settings.imageProviderId);
+    if (provider.needsApiKey && !apiKey) {
+      log("API 키가 없습니다.", 'error');
+      return;
+    }
+    const templateErrors = validatePromptTemplate(settings.promptTemplate);
+    if (templateErrors.length > 0) {
+      log(`프롬프트 템플릿 오류: ${templateErrors.join(', ')}`, 'error');
+      return;
+    }
+    const providerOptions = {
+      apiKey,
+      endpointUrl: settings.endpointUrl,
+      endpointModel: settings.endpointModel,
+      endpointApiKey,
+      modelChain: settings.modelChain,
+    };
+    const engineLabel = provider.id === GOOGLE_PROVIDER_ID
+      ? settings.modelChain.filter(e => e.enabled).map(e => IMAGE_MODEL_LABELS[e.model] || e.model).join(' → ')
+      : provider.label;
+
     setIsProcessing(true);
     stopProcessingRef.current = false;
-    const total = scenesToProcess.length;
-    log(`${total}개 장면에 대한 생성을 시작합니다. (모델: Imagen 3 → Gemini 2.5 → 2.0 자동 전환)`, 'info');
-
-    for (let i = 0; i < total; i++) {
-      // CHECK STOP SIGNAL
-      if (stopProcessingRef.current) {
-        log("사용자 요청으로 작업을 일시정지했습니다.", 'warning');
-        break;
+    // Mutable queue: scenes failing QA are pushed back onto the end
+    const queue = [...scenesToProcess];
+    const qaAttempts = new Map<number, number>();
+    const total = queue.length;
+    const workerCount = Math.max(1, Math.min(settings.concurrency, total));
+    log(`${total}개 장면에 대한 생성을 시작합니다. (엔진: ${engineLabel}, 스타일: ${activeStyle.name}, 작업자 ${workerCount}개, 모델당 분당 ${settings.requestsPerMinute}회)`, 'info');
+
+    // Everything not yet started waits in the queue
+    const queuedIds = new Set(scenesToProcess.map(s => s.id));
+    setScenes(prev => prev.map(s => queuedIds.has(s.id) ? { ...s, status: SceneStatus.PENDING } : s));
+
+    const generateAndRecord = async (scene: Scene) => {
+      const result = await generateSceneImage(providerOptions, provider.id, scene, isRetryMode, promptOptions);
+      const take = createTake(result.imageUrl, result.prompt, result.model, activeStyle);
+      
+      // On Success: keep previous takes, the new one becomes selected
+      setScenes(prev => prev.map(s => s.id === scene.id ? { ...addTake(s, take), status: SceneStatus.SUCCESS, errorMsg: undefined, errorCode: undefined } : s));
+      log(`장면 #${scene.id} 생성 성공. (${IMAGE_MODEL_LABELS[result.model] || result.model})`, 'success');
+      await runQa(scene, take);
+    };
+
+    // Vision QA on the new take; below-threshold scenes go back into the queue
+    const runQa = async (scene: Scene, take: SceneTake) => {
+      if (!settings.qaEnabled || !apiKey) return;
+      try {
+        const qa = await checkSceneImage(apiKey, scene, take.imageUrl, activeStyle, settings.imageTextLanguage, characters);
+        setScenes(prev => prev.map(s => s.id === scene.id ? setTakeQa(s, take.id, qa) : s));
+        const percent = Math.round(qa.score * 100);
+        if (qa.score >= settings.qaThreshold) {
+          log(`장면 #${scene.id} QA 통과 (${percent}%).`, 'success');
+          return;
+        }
+
+        const failedLabels = qa.checks.filter(c => !c.passed).map(c => c.label).join(', ');
+        const attempts = qaAttempts.get(scene.id) ?? 0;
+        if (attempts < settings.qaMaxRegenerations && !stopProcessingRef.current) {
+          qaAttempts.set(scene.id, attempts + 1);
+          queue.push(scene);
+          setScenes(prev => prev.map(s => s.id === scene.id ? { ...s, status: SceneStatus.PENDING } : s));
+          log(`장면 #${scene.id} QA 미달 (${percent}%: ${failedLabels}). 다시 대기열에 추가합니다. (${attempts + 1}/${settings.qaMaxRegenerations})`, 'warning');
+        } else {
+          // Out of attempts: keep the best-scoring take as the winner
+          setScenes(prev => prev.map(s => {
+            if (s.id !== scene.id) return s;
+            const best = getBestQaTake(s);
+            return best ? { ...s, selectedTakeId: best.id } : s;
+          }));
+          log(`장면 #${scene.id} QA 미달 (${percent}%: ${failedLabels}). 재생성 한도에 도달해 점수가 가장 높은 테이크를 선택합니다.`, 'warning');
+        }
+      } catch (error: any) {
+        log(`장면 #${scene.id} QA 검사 실패: ${error.message}`, 'warning');
       }
+    };
 
-      const sceneId = scenesToProcess[i].id;
+    const processScene = async (queued: Scene) => {
+      const sceneId = queued.id;
       
       // Update status to generating
       setScenes(prev => prev.map(s => s.id === sceneId ? { ...s, status: isRetryMode ? SceneStatus.RETRYING : SceneStatus.GENERATING } : s));
       
+      // Fetch current prompt data (the scene may have been edited after the queue started)
+      const currentScene = scenesRef.current.find(s => s.id === sceneId) || queued;
+      let finalError: any;
       try {
-        // Fetch current prompt data (in case it was edited, though edit not imp yet)
-        const currentScene = scenes.find(s => s.id === sceneId) || scenesToProcess[i];
-        
         log(`장면 #${sceneId} 생성 중...`, 'info');
-        const imageUrl = await generateSceneImage(apiKey, currentScene, isRetryMode);
-        
-        // On Success
-        setScenes(prev => prev.map(s => s.id === sceneId ? { ...s, status: SceneStatus.SUCCESS, imageUrl, errorMsg: undefined } : s));
-        log(`장면 #${sceneId} 생성 성공.`, 'success');
-
+        await generateAndRecord(currentScene);
+        return;
       } catch (error: any) {
-        // On Error
-        const errorMsg = error.message || "알 수 없는 오류";
-        log(`장면 #${sceneId} 생성 오류: ${errorMsg}`, 'error');
-        setScenes(prev => prev.map(s => s.id === sceneId ? { ...s, status: SceneStatus.ERROR, errorMsg } : s));
+        finalError = error;
       }
 
-      // Rate Limiting / Backoff
-      if (i < total - 1 && !stopProcessingRef.current) {
-        await delay(RATE_LIMIT_DELAY_MS);
+      // Safety block: let Gemini rewrite the prompt (keeping the story beat) and try once more
+      const failure = classifyError(finalError);
+      if (failure.code === ErrorCode.SAFETY_BLOCK && settings.autoSafetyRewrite && apiKey && !stopProcessingRef.current) {
+        try {
+          log(`장면 #${sceneId} 안전 정책 차단. 프롬프트를 재작성하여 다시 시도합니다...`, 'warning');
+          const rewritten = await rewriteBlockedPrompt(apiKey, currentScene, failure.message);
+          const patch = {
+            englishPrompt: rewritten,
+            originalPrompt: currentScene.originalPrompt ?? currentScene.englishPrompt,
+            safetyRewriteReason: failure.message,
+          };
+          setScenes(prev => prev.map(s => s.id === sceneId ? { ...s, ...patch } : s));
+          log(`장면 #${sceneId} 재작성된 프롬프트: ${rewritten}`, 'info');
+          await generateAndRecord({ ...currentScene, ...patch });
+          return;
+        } catch (rewriteError: any) {
+          finalError = rewriteError;
+        }
       }
-    }
+
+      // On Error
+      const errorMsg = finalError.message || "알 수 없는 오류";
+      const errorCode = classifyError(finalError).code;
+      log(`장면 #${sceneId} 생성 오류 [${ERROR_CODE_LABELS[errorCode]}]: ${errorMsg}`, 'error');
+      setScenes(prev => prev.map(s => s.id === sceneId ? { ...s, status: SceneStatus.ERROR, errorMsg, errorCode } : s));
+    };
+
+    // N workers pull from one shared queue; pacing is handled by the shared rate limiter
+    let nextIndex = 0;
+    const worker = async () => {
+      while (!stopProcessingRef.current && nextIndex < queue.length) {
+        await processScene(queue[nextIndex++]);
+      }
+    };
+    await Promise.all(Array.from({ length: workerCount }, worker));
 
     setIsProcessing(false);
     if (!stopProcessingRef.current) {
       log("작업이 완료되었습니다.", 'info');
     } else {
+      // Scenes that never started go back to IDLE so they count as pending again
+      setScenes(prev => prev.map(s => s.status === SceneStatus.PENDING ? { ...s, status: SceneStatus.IDLE } : s));
+      log("사용자 요청으로 작업을 일시정지했습니다.", 'warning');
       log("일시정지 됨. '생성 재개' 버튼을 눌러 계속하세요.", 'warning');
     }
   };
@@ -132,14 +460,19 @@ const App: React.FC = () => {
   // --- Button Handlers ---
 
   const handleStartGeneration = () => {
+    if (isSceneListLocked) return;
     let targets: Scene[] = [];
+    const blankCount = scenes.filter(s => !s.englishPrompt.trim()).length;
+    if (blankCount > 0) {
+      log(`프롬프트가 비어 있는 ${blankCount}개 장면은 제외합니다. 편집 후 다시 시도하세요.`, 'warning');
+    }
 
     // Priority: Explicit Selection > Pending Scenes
     if (selectedIds.size > 0) {
-      targets = scenes.filter(s => selectedIds.has(s.id));
+      targets = scenes.filter(s => selectedIds.has(s.id) && s.englishPrompt.trim());
       log(`선택된 ${targets.length}개 장면에 대해 생성을 시작합니다.`, 'info');
     } else {
-      targets = scenes.filter(s => s.status === SceneStatus.IDLE || s.status === SceneStatus.ERROR);
+      targets = scenes.filter(s => (s.status === SceneStatus.IDLE || s.status === SceneStatus.ERROR) && s.englishPrompt.trim());
       if (targets.length === 0) {
         log("생성할 대상이 없습니다. (대기 중인 항목 없음)", 'warning');
         return;
@@ -152,28 +485,116 @@ const App: React.FC = () => {
 
   const handleStopGeneration = () => {
     stopProcessingRef.current = true;
-    log("일시정지 요청 중... 현재 작업이 완료되면 멈춥니다.", 'info');
+    log("일시정지 요청 중... 진행 중인 작업이 완료되면 멈춥니다.", 'info');
   };
 
   const handleRetryFailed = () => {
-    const failedScenes = scenes.filter(s => s.status === SceneStatus.ERROR);
+    if (isSceneListLocked) return;
+    const failedScenes = scenes.filter(s => s.status === SceneStatus.ERROR && (errorFilter === 'ALL' || (s.errorCode ?? ErrorCode.UNKNOWN) === errorFilter));
     if (failedScenes.length === 0) {
       log("재시도할 실패한 장면이 없습니다.", 'success');
       return;
     }
-    log(`${failedScenes.length}개의 실패한 장면에 대해 단순화된 프롬프트로 재시도합니다...`, 'warning');
+    const scopeLabel = errorFilter === 'ALL' ? '' : ` [${ERROR_CODE_LABELS[errorFilter]}]`;
+    log(`${failedScenes.length}개의 실패한 장면${scopeLabel}에 대해 단순화된 프롬프트로 재시도합니다...`, 'warning');
     processQueue(failedScenes, true);
   };
 
   const handleManualRetry = (id: number) => {
+    if (isSceneListLocked) return;
     const scene = scenes.find(s => s.id === id);
     if (scene) {
       processQueue([scene], true); // Force retry mode for manual
     }
   };
 
+  const handleSaveSceneEdit = (id: number, edit: SceneEdit, regenerate: boolean) => {
+    const current = scenesRef.current.find(s => s.id === id);
+    if (!current) return;
+    // Going back to the pre-rewrite prompt drops the safety-rewrite record
+    const clearsRewrite = current.originalPrompt !== undefined && edit.englishPrompt === current.originalPrompt;
+    const patch: Partial<Scene> = clearsRewrite ? { ...edit, originalPrompt: undefined, safetyRewriteReason: undefined } : edit;
+    const updated: Scene = { ...current, ...patch };
+    // Update the ref immediately so the queue below sees the edited values
+    scenesRef.current = scenesRef.current.map(s => s.id === id ? updated : s);
+    setScenes(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+    log(`장면 #${id} 내용을 수정했습니다.`, 'info');
+
+    if (regenerate && !isSceneListLocked) {
+      processQueue([updated]);
+    }
+  };
+
+  // --- Structural Scene Operations ---
+  // Ids are renumbered after every operation, so these are blocked while the queue or an analysis runs
+  const applySceneChange = (result: SceneOpResult) => {
+    setScenes(result.scenes);
+    setSelectedIds(prev => {
+      const remapped = new Set<number>();
+      prev.forEach(id => {
+        const newId = result.idMap.get(id);
+        if (newId !== undefined) remapped.add(newId);
+      });
+      return remapped;
+    });
+  };
+
+  const handleSceneOperation = (id: number, op: SceneOperation) => {
+    if (isSceneListLocked) return;
+    if (op === 'delete' && !window.confirm(`장면 #${id}을(를) 삭제할까요?`)) return;
+    if (op === 'mergeNext' && id >= scenes.length) {
+      log("마지막 장면은 다음 장면과 병합할 수 없습니다.", 'warning');
+      return;
+    }
+    applySceneChange(applySceneOperation(scenes, id, op));
+    const messages: Record<SceneOperation, string> = {
+      split: `장면 #${id}을(를) 두 장면으로 분할했습니다.`,
+      mergeNext: `장면 #${id}과(와) #${id + 1}을(를) 병합했습니다.`,
+      insertAfter: `장면 #${id} 뒤에 새 장면을 삽입했습니다.`,
+      delete: `장면 #${id}을(를) 삭제했습니다.`,
+    };
+    log(messages[op], 'info');
+  };
+
+  const handleDeleteSelected = () => {
+    if (isSceneListLocked || selectedIds.size === 0) return;
+    if (!window.confirm(`선택한 ${selectedIds.size}개 장면을 삭제할까요?`)) return;
+    log(`선택한 ${selectedIds.size}개 장면을 삭제했습니다.`, 'info');
+    applySceneChange(deleteScenes(scenes, selectedIds));
+  };
+
+  const handleMoveScene = (fromId: number, toId: number) => {
+    if (isSceneListLocked || fromId === toId) return;
+    applySceneChange(moveScene(scenes, fromId, toId));
+    log(`장면 #${fromId}을(를) #${toId} 위치로 옮겼습니다.`, 'info');
+  };
+
+  const handleSelectTake = (id: number, takeId: string) => {
+    setScenes(prev => prev.map(s => s.id === id ? { ...s, selectedTakeId: takeId } : s));
+  };
+
+  const describeTake = (scene: Scene) => {
+    const take = getSelectedTake(scene);
+    if (!take) return 'Take: -';
+    return `Take: ${scene.takes.indexOf(take) + 1}/${scene.takes.length} Model: ${IMAGE_MODEL_LABELS[take.model] || take.model} Style: ${take.styleProfileName ?? '-'}`;
+  };
+
+  const describeShot = (scene: Scene) =>
+    `Shot: ${scene.shotType}/${scene.cameraAngle}${scene.location ? ` @ ${scene.location}` : ''}, ${scene.durationSec}s${scene.startSec !== undefined ? ` from ${scene.startSec}s` : ''}`;
+
+  // Project-level context printed above the per-scene lines of every report
+  const describeProject = () => {
+    const { language, captionLanguage, granularity, targetSceneCount, maxSceneCount, insertShots, reactionShots } = settings.analysis;
+    return [
+      `Project: ${settings.title}`,
+      `Style: ${activeStyle.name}`,
+      `Text in images: ${settings.imageTextLanguage}`,
+      `Analysis: language=${language}, caption=${captionLanguage}, granularity=${granularity}, target=${targetSceneCount || 'auto'}, max=${maxSceneCount}, insert shots=${insertShots ? 'yes' : 'no'}, reaction shots=${reactionShots ? 'yes' : 'no'}`,
+    ].join('\n');
+  };
+
   const handleDownloadReport = () => {
-    const report = scenes.map(s => `Scene ${s.id}: [${s.status}] ${s.errorMsg || 'OK'} - Prompt: ${s.englishPrompt}`).join('\n');
+    const report = describeProject() + '\n\n' + scenes.map(s => `Scene ${s.id}: [${s.status}] ${s.errorMsg || 'OK'} - ${describeTake(s)} - ${describeShot(s)} - Prompt: ${s.englishPrompt}${s.originalPrompt ? ` (Safety rewrite of: ${s.originalPrompt})` : ''}`).join('\n');
     const blob = new Blob([report], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -183,8 +604,14 @@ const App: React.FC = () => {
     log("리포트가 다운로드되었습니다.", 'success');
   };
 
+  // File name of a scene's selected take in the ZIP (only finished scenes go there); the timeline exports point at it
+  const exportedSceneImageName = (scene: Scene): string | undefined => {
+    const take = scene.status === SceneStatus.SUCCESS ? getSelectedTake(scene) : undefined;
+    return take ? exportedImageName(scene.id, exportedImageExtension(take.imageUrl, settings.imageExport)) : undefined;
+  };
+
   const handleDownloadAllImages = async () => {
-    const successScenes = scenes.filter(s => s.status === SceneStatus.SUCCESS && s.imageUrl);
+    const successScenes = scenes.filter(s => s.status === SceneStatus.SUCCESS && s.takes.length > 0);
     if (successScenes.length === 0) {
       log("다운로드할 완료된 이미지가 없습니다.", 'warning');
       return;
@@ -198,22 +625,32 @@ const App: React.FC = () => {
       const imgFolder = zip.folder("images");
 
       // Add Text Report
-      const report = scenes.map(s => `Scene ${s.id}: [${s.status}] Prompt: ${s.englishPrompt} \nKR: ${s.scriptSegment}`).join('\n\n');
+      const report = describeProject() + '\n\n' + scenes.map(s => `Scene ${s.id}: [${s.status}] ${describeTake(s)} ${describeShot(s)} Prompt: ${s.englishPrompt} \nScript: ${s.scriptSegment}${s.caption ? `\nCaption: ${s.caption}` : ''}${s.originalPrompt ? `\nOriginal Prompt (safety rewrite): ${s.originalPrompt}` : ''}`).join('\n\n');
       zip.file("report.txt", report);
 
-      // Process images
-      const promises = successScenes.map(async (scene) => {
-        if (!scene.imageUrl) return;
-        
-        // Convert Base64 Data URL to Blob
-        const fetchRes = await fetch(scene.imageUrl);
-        const blob = await fetchRes.blob();
-        
-        const fileName = `scene_${scene.id.toString().padStart(3, '0')}.png`;
-        imgFolder.file(fileName, blob);
-      });
+      // Timed exports next to images/, so the EDL/FCPXML media paths resolve after unzipping
+      // Every scene keeps its slot; the ones without an image become black/gaps
+      const timeline = buildSceneTimeline(scenes, settings.timeline, exportedSceneImageName);
+      const timelineFormats: TimelineFormat[] = ['srt', 'edl', 'fcpxml'];
+      timelineFormats.forEach(format => zip.file(`timeline.${format}`, renderTimeline(format, timeline, settings.timeline, settings.title || 'ifman')));
+
+      // Process images (selected take as scene_###.<ext>, optionally every take under takes/),
+      // one scene at a time so large upscales don't hold every canvas in memory at once
+      const takesFolder = exportAllTakes ? imgFolder.folder("takes") : null;
+      for (const scene of successScenes) {
+        const selected = getSelectedTake(scene);
+        if (!selected) continue;
 
-      await Promise.all(promises);
+        const { blob, extension } = await processExportImage(scene, selected.imageUrl, settings.imageExport);
+        imgFolder.file(exportedImageName(scene.id, extension), blob);
+
+        if (takesFolder) {
+          for (const [index, take] of scene.takes.entries()) {
+            const exported = await processExportImage(scene, take.imageUrl, settings.imageExport);
+            takesFolder.file(`${sceneFileBase(scene.id)}_take${index + 1}.${exported.extension}`, exported.blob);
+          }
+        }
+      }
 
       const content = await zip.generateAsync({ type: "blob" });
       saveAs(content, "ifman_storyboard.zip");
@@ -227,8 +664,194 @@ const App: React.FC = () => {
     }
   };
 
+  // Single download from a scene card, through the same export pipeline as the ZIP
+  const handleDownloadTake = async (id: number, take: SceneTake) => {
+    const scene = scenesRef.current.find(s => s.id === id);
+    if (!scene) return;
+    try {
+      const { blob, extension } = await processExportImage(scene, take.imageUrl, settings.imageExport);
+      saveAs(blob, `${sceneFileBase(id)}_ifman.${extension}`);
+    } catch (error: any) {
+      console.error(error);
+      log(`장면 #${id} 이미지 저장 실패: ${error.message}`, 'error');
+    }
+  };
+
+  // --- Animatic (WebM) ---
+  const handleExportAnimatic = async () => {
+    if (successScenes.length === 0) {
+      log("애니매틱으로 만들 완료된 장면이 없습니다.", 'warning');
+      return;
+    }
+    const controller = new AbortController();
+    animaticAbortRef.current = controller;
+    setAnimaticProgress(0);
+    log(`애니매틱 녹화를 시작합니다. (장면 ${successScenes.length}개, ${formatDuration(getAnimaticDuration(successScenes))})`, 'info');
+    try {
+      const blob = await renderAnimatic(successScenes, settings.animatic, setAnimaticProgress, controller.signal);
+      saveAs(blob, `${settings.title || 'ifman'}_animatic.webm`);
+      log("애니매틱 내보내기가 완료되었습니다.", 'success');
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        log("애니매틱 내보내기를 취소했습니다.", 'warning');
+      } else {
+        console.error(error);
+        log(`애니매틱 내보내기 실패: ${error.message}`, 'error');
+      }
+    } finally {
+      animaticAbortRef.current = null;
+      setAnimaticProgress(null);
+    }
+  };
+
+  // --- Timeline (SRT / EDL / FCPXML) ---
+  const handleDownloadTimeline = (format: TimelineFormat) => {
+    if (scenes.length === 0) {
+      log("타임라인으로 내보낼 장면이 없습니다.", 'warning');
+      return;
+    }
+    const title = settings.title || 'ifman';
+    const content = renderTimeline(format, buildSceneTimeline(scenes, settings.timeline, exportedSceneImageName), settings.timeline, title);
+    saveAs(new Blob([content], { type: format === 'fcpxml' ? 'application/xml' : 'text/plain' }), `${title}_timeline.${format}`);
+    const missing = scenes.length - successScenes.length;
+    log(`${format.toUpperCase()} 타임라인을 저장했습니다. (장면 ${scenes.length}개${missing > 0 ? `, 이미지 없는 ${missing}개는 빈 구간` : ''})`, 'success');
+  };
+
+  // --- Contact sheet (print-ready HTML / PDF) ---
+  const handleExportContactSheet = async (format: 'html' | 'pdf') => {
+    if (scenes.length === 0) {
+      log("콘티 시트로 만들 장면이 없습니다.", 'warning');
+      return;
+    }
+    const title = settings.title || 'ifman';
+    const cover: ContactSheetCover = {
+      title,
+      details: [
+        `스타일: ${activeStyle.name}`,
+        `대본 언어: ${SCRIPT_LANGUAGES[resolveScriptLanguage(settings.analysis.language, analyzedScript || script)].label}`,
+        `총 길이: ${formatDuration(getAnimaticDuration(scenes))}`,
+        `출력일: ${new Date().toLocaleDateString('ko-KR')}`,
+      ],
+      stats: getSceneStats(scenes),
+    };
+    if (format === 'html') {
+      const html = buildContactSheetHtml(scenes, settings.contactSheet, cover);
+      saveAs(new Blob([html], { type: 'text/html;charset=utf-8' }), `${title}_storyboard.html`);
+      log(`콘티 시트(HTML)를 저장했습니다. (장면 ${scenes.length}개)`, 'success');
+      return;
+    }
+    setContactSheetProgress({ done: 0, total: 1 });
+    try {
+      const pdf = await renderContactSheetPdf(scenes, settings.contactSheet, cover, (done, total) => setContactSheetProgress({ done, total }));
+      saveAs(pdf, `${title}_storyboard.pdf`);
+      log(`콘티 시트(PDF)를 저장했습니다. (장면 ${scenes.length}개)`, 'success');
+    } catch (error: any) {
+      console.error(error);
+      log(`콘티 시트 PDF 생성 실패: ${error.message}`, 'error');
+    } finally {
+      setContactSheetProgress(null);
+    }
+  };
+
+  // --- Narration timing (SRT / timestamped transcript) ---
+  const handleImportNarration = async (file: File) => {
+    if (scenes.length === 0) {
+      log("내레이션을 맞출 장면이 없습니다. 먼저 대본을 분석하세요.", 'warning');
+      return;
+    }
+    try {
+      const cues = parseNarrationCues(await file.text());
+      if (cues.length === 0) {
+        log(`${file.name}에서 타임코드를 찾지 못했습니다. SRT/VTT 또는 줄마다 [00:01:23] 형식의 시간이 있는 대본을 사용하세요.`, 'error');
+        return;
+      }
+      const alignments = alignNarration(scenes, cues);
+      const mismatches = alignments.filter(a => a.score < NARRATION_MATCH_THRESHOLD).length;
+      log(`내레이션 ${cues.length}개 구간을 장면 ${scenes.length}개에 맞췄습니다. (불일치 ${mismatches}개)`, mismatches > 0 ? 'warning' : 'info');
+      setNarrationReview(alignments);
+    } catch (error: any) {
+      console.error(error);
+      log(`내레이션 파일을 읽지 못했습니다: ${error.message}`, 'error');
+    }
+  };
+
+  const handleApplyNarration = (alignments: SceneAlignment[]) => {
+    const byUid = new Map(alignments.map(a => [a.uid, a]));
+    setScenes(prev => prev.map(s => {
+      const a = byUid.get(s.uid);
+      return a ? { ...s, startSec: a.startSec, durationSec: a.durationSec, narrationScore: a.score } : s;
+    }));
+    setNarrationReview(null);
+    log(`내레이션 타이밍을 장면 ${alignments.length}개에 적용했습니다. 타임라인과 애니매틱이 이 시간을 따릅니다.`, 'success');
+  };
+
+  const handleClearNarration = () => {
+    setScenes(prev => prev.map(({ startSec, narrationScore, ...s }) => s));
+    log("내레이션 정렬을 해제했습니다. 장면 길이는 그대로 유지됩니다.", 'info');
+  };
+
+  // --- Project Bundle (re-importable ZIP) ---
+  const handleExportProject = async () => {
+    setIsBundling(true);
+    log("프로젝트 파일을 만드는 중입니다...", 'info');
+    try {
+      const blob = await exportProjectBundle({ script, analyzedScript, settings, styleProfile: activeStyle, characters, scenes });
+      saveAs(blob, `${settings.title || 'ifman'}_project.zip`);
+      log(`프로젝트 저장 완료. (장면 ${scenes.length}개)`, 'success');
+    } catch (error: any) {
+      console.error(error);
+      log(`프로젝트 저장 실패: ${error.message}`, 'error');
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
+  const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-selecting the same file
+    if (!file) return;
+
+    setIsBundling(true);
+    log(`프로젝트 파일을 불러오는 중입니다: ${file.name}`, 'info');
+    try {
+      const bundle = await importProjectBundle(file);
+      setScript(bundle.script);
+      setAnalyzedScript(bundle.analyzedScript ?? '');
+      setSettings(normalizeSettings(bundle.settings));
+      setCharacters(bundle.characters);
+      // Bring the project's style along when it is not in this browser's library yet
+      const bundledStyle = bundle.styleProfile;
+      if (bundledStyle && !styleProfiles.some(p => p.id === bundledStyle.id)) {
+        setStyleProfiles(prev => [...prev, bundledStyle]);
+        log(`스타일 프로필 '${bundledStyle.name}'을(를) 라이브러리에 추가했습니다.`, 'info');
+      }
+      setScenes(bundle.scenes);
+      setSelectedIds(new Set());
+      setRestoreCandidate(null);
+      setIsSessionReady(true);
+      const done = bundle.scenes.filter(s => s.status === SceneStatus.SUCCESS).length;
+      log(`프로젝트 불러오기 완료. (장면 ${bundle.scenes.length}개, 완료 ${done}개, 남은 장면 ${bundle.scenes.length - done}개)`, 'success');
+    } catch (error: any) {
+      console.error(error);
+      log(`프로젝트 불러오기 실패: ${error.message}`, 'error');
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
   // Helper variables for UI
   const pendingCount = scenes.filter(s => s.status === SceneStatus.IDLE || s.status === SceneStatus.ERROR).length;
+  const errorCounts = scenes.reduce((counts, s) => {
+    if (s.status === SceneStatus.ERROR) {
+      const code = s.errorCode ?? ErrorCode.UNKNOWN;
+      counts[code] = (counts[code] ?? 0) + 1;
+    }
+    return counts;
+  }, {} as Partial<Record<ErrorCode, number>>);
+  const visibleScenes = errorFilter === 'ALL'
+    ? scenes
+    : scenes.filter(s => s.status === SceneStatus.ERROR && (s.errorCode ?? ErrorCode.UNKNOWN) === errorFilter);
+  const successScenes = scenes.filter(s => s.status === SceneStatus.SUCCESS && getSelectedTake(s));
   const selectionCount = selectedIds.size;
   const hasScenes = scenes.length > 0;
 
@@ -253,6 +876,29 @@ const App: React.FC = () => {
              />
             )}
            
+            <input
+              ref={bundleInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={handleImportProject}
+            />
+            <button
+              onClick={() => bundleInputRef.current?.click()}
+              disabled={isBundling || isProcessing || isAnalyzing}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1.5 rounded text-sm font-medium transition-colors border border-gray-600 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              프로젝트 열기
+            </button>
+
+            <button
+              onClick={handleExportProject}
+              disabled={!hasScenes || isBundling}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1.5 rounded text-sm font-medium transition-colors border border-gray-600 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isBundling ? '처리 중...' : '프로젝트 저장'}
+            </button>
+
             <button
               onClick={handleDownloadReport}
               className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1.5 rounded text-sm font-medium transition-colors border border-gray-600"
@@ -261,6 +907,15 @@ const App: React.FC = () => {
               리포트 저장
             </button>
 
+            <label className="flex items-center gap-1 text-xs text-gray-400 whitespace-nowrap" title="ZIP에 모든 테이크를 함께 저장">
+              <input
+                type="checkbox"
+                checked={exportAllTakes}
+                onChange={(e) => setExportAllTakes(e.target.checked)}
+              />
+              모든 테이크
+            </label>
+
              <button
               onClick={handleDownloadAllImages}
               disabled={scenes.filter(s => s.status === SceneStatus.SUCCESS).length === 0 || isZipping}
@@ -287,6 +942,49 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {/* Restore Banner */}
+      {restoreCandidate && (
+        <div className="bg-indigo-900/60 border-b border-indigo-700 px-4 py-3">
+          <div className="max-w-7xl mx-auto flex flex-col sm:flex-row justify-between items-center gap-3 text-sm">
+            <span className="text-indigo-100">
+              저장된 이전 세션이 있습니다. ({new Date(restoreCandidate.savedAt).toLocaleString('ko-KR')}, 장면 {restoreCandidate.scenes.length}개, 완료 {restoreCandidate.scenes.filter(s => s.status === SceneStatus.SUCCESS).length}개)
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={handleRestoreSession}
+                className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-1.5 rounded font-bold transition-colors"
+              >
+                세션 복원
+              </button>
+              <button
+                onClick={handleDiscardSession}
+                className="bg-gray-700 hover:bg-gray-600 text-gray-200 px-4 py-1.5 rounded transition-colors border border-gray-600"
+              >
+                새로 시작
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {reanalysis && (
+        <ReanalysisReview
+          sections={reanalysis.sections}
+          newCharacterNames={reanalysis.newCharacters.map(c => c.name)}
+          onApply={handleApplyReanalysis}
+          onCancel={handleCancelReanalysis}
+        />
+      )}
+
+      {narrationReview && (
+        <NarrationReview
+          scenes={scenes}
+          alignments={narrationReview}
+          onApply={handleApplyNarration}
+          onCancel={() => setNarrationReview(null)}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 max-w-7xl w-full mx-auto p-4 grid grid-cols-1 lg:grid-cols-12 gap-6">
         
@@ -298,11 +996,56 @@ const App: React.FC = () => {
             <StatsDashboard scenes={scenes} />
           </div>
 
+          {/* Image Provider */}
+          <ProviderSettings
+            settings={settings}
+            endpointApiKey={endpointApiKey}
+            disabled={isProcessing}
+            onChange={(patch) => setSettings(prev => ({ ...prev, ...patch }))}
+            onEndpointApiKeyChange={setEndpointApiKey}
+          />
+
+          {/* Style Profile */}
+          <StyleProfiles
+            profiles={styleProfiles}
+            selectedId={activeStyle.id}
+            disabled={isProcessing}
+            onSelect={(styleProfileId) => setSettings(prev => ({ ...prev, styleProfileId }))}
+            onChange={setStyleProfiles}
+          />
+
+          {/* Prompt Template */}
+          <PromptTemplateEditor
+            template={settings.promptTemplate}
+            imageTextLanguage={settings.imageTextLanguage}
+            disabled={isProcessing}
+            onImageTextLanguageChange={(imageTextLanguage) => setSettings(prev => ({ ...prev, imageTextLanguage }))}
+            onSave={(promptTemplate) => {
+              setSettings(prev => ({ ...prev, promptTemplate }));
+              log("프롬프트 템플릿을 저장했습니다.", 'success');
+            }}
+          />
+
+          {/* Character Library */}
+          <CharacterLibrary
+            characters={characters}
+            disabled={isProcessing || isAnalyzing}
+            onChange={setCharacters}
+            onError={(message) => log(message, 'warning')}
+          />
+
           {/* Script Input */}
           <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-lg flex-1 flex flex-col">
             <h3 className="text-lg font-bold mb-2 text-gray-200">대본 입력</h3>
+            <input
+              type="text"
+              placeholder="프로젝트 이름"
+              className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm mb-2 focus:outline-none focus:border-blue-500"
+              value={settings.title}
+              onChange={(e) => setSettings(prev => ({ ...prev, title: e.target.value }))}
+            />
             <div className="mb-2 text-xs text-gray-400">
-               팁: 상세한 분할을 위해 가능한 긴 대본을 입력하세요. 시스템이 자동으로 100컷 이상으로 나눕니다.
+               팁: 분할 단위와 장면 수는 아래 분석 설정에서 조정할 수 있습니다. 긴 대본은 구간별로 나누어 분석합니다.
             </div>
             <textarea
               className="flex-1 w-full bg-gray-900 border border-gray-700 rounded p-3 text-sm focus:outline-none focus:border-blue-500 mb-4 resize-none"
@@ -311,8 +1054,13 @@ const App: React.FC = () => {
               onChange={(e) => setScript(e.target.value)}
               disabled={isAnalyzing || isProcessing}
             />
+            <AnalysisSettings
+              options={settings.analysis}
+              disabled={isAnalyzing || isProcessing}
+              onChange={(patch) => setSettings(prev => ({ ...prev, analysis: { ...prev.analysis, ...patch } }))}
+            />
             <button
-              onClick={handleAnalyze}
+              onClick={() => handleAnalyze()}
               disabled={isAnalyzing || isProcessing || !script}
               className={`w-full py-3 rounded font-bold text-sm transition-all
                 ${isAnalyzing 
@@ -320,10 +1068,68 @@ const App: React.FC = () => {
                   : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg hover:shadow-blue-500/20'
                 } disabled:opacity-50 disabled:cursor-not-allowed`}
             >
-              {isAnalyzing ? '대본 상세 분석 중...' : '1. 대본 정밀 분석 (장면 분할)'}
+              {isAnalyzing
+                ? `대본 상세 분석 중...${analysisProgress ? ` (${analysisProgress.done}/${analysisProgress.total} 구간)` : ''}`
+                : (hasScenes && analyzedScript ? '1. 변경된 부분만 다시 분석' : '1. 대본 정밀 분석 (장면 분할)')}
             </button>
+            {hasScenes && analyzedScript && (
+              <button
+                onClick={() => handleAnalyze(true)}
+                disabled={isAnalyzing || isProcessing || !script}
+                className="mt-1 text-[11px] text-gray-500 hover:text-gray-300 underline disabled:opacity-50"
+              >
+                처음부터 다시 분석 (기존 장면 삭제)
+              </button>
+            )}
+            {analysisProgress && (
+              <div className="mt-2 h-1.5 w-full bg-gray-900 rounded overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all duration-300"
+                  style={{ width: `${(analysisProgress.done / analysisProgress.total) * 100}%` }}
+                />
+              </div>
+            )}
           </div>
 
+          <ImageExportSettings
+            options={settings.imageExport}
+            disabled={isZipping}
+            onChange={(patch) => setSettings(prev => ({ ...prev, imageExport: { ...prev.imageExport, ...patch } }))}
+          />
+
+          <AnimaticExport
+            options={settings.animatic}
+            sceneCount={successScenes.length}
+            duration={getAnimaticDuration(successScenes)}
+            progress={animaticProgress}
+            disabled={isProcessing}
+            onChange={(patch) => setSettings(prev => ({ ...prev, animatic: { ...prev.animatic, ...patch } }))}
+            onExport={handleExportAnimatic}
+            onCancel={() => animaticAbortRef.current?.abort()}
+          />
+
+          <TimelineExport
+            options={settings.timeline}
+            sceneCount={scenes.length}
+            imageCount={successScenes.length}
+            naturalDuration={getAnimaticDuration(scenes)}
+            alignedCount={scenes.filter(s => s.startSec !== undefined).length}
+            disabled={isProcessing}
+            onChange={(patch) => setSettings(prev => ({ ...prev, timeline: { ...prev.timeline, ...patch } }))}
+            onDownload={handleDownloadTimeline}
+            onImportNarration={handleImportNarration}
+            onClearNarration={handleClearNarration}
+          />
+
+          <ContactSheetExport
+            options={settings.contactSheet}
+            sceneCount={scenes.length}
+            progress={contactSheetProgress}
+            disabled={isProcessing}
+            onChange={(patch) => setSettings(prev => ({ ...prev, contactSheet: { ...prev.contactSheet, ...patch } }))}
+            onExport={handleExportContactSheet}
+          />
+
           {/* Logs */}
           <div className="flex-none">
             <h3 className="text-sm font-bold text-gray-400 mb-2">시스템 로그</h3>
@@ -354,6 +1160,13 @@ const App: React.FC = () => {
                  >
                    선택 해제
                  </button>
+                 <button 
+                  onClick={handleDeleteSelected} 
+                  disabled={!hasScenes || isSceneListLocked || selectionCount === 0}
+                  className="text-xs bg-gray-700 hover:bg-red-800 px-2 py-1 rounded text-gray-300 disabled:opacity-50"
+                 >
+                   선택 삭제
+                 </button>
               </div>
               <span className="text-gray-400 text-sm border-l border-gray-600 pl-3">
                 {selectionCount > 0 ? (
@@ -379,7 +1192,7 @@ const App: React.FC = () => {
               ) : (
                 <button
                   onClick={handleStartGeneration}
-                  disabled={!hasScenes}
+                  disabled={!hasScenes || isSceneListLocked}
                   className={`px-6 py-2 rounded font-bold text-sm shadow transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed text-white
                     ${selectionCount > 0 
                       ? 'bg-indigo-600 hover:bg-indigo-500 ring-2 ring-indigo-400' 
@@ -397,12 +1210,26 @@ const App: React.FC = () => {
                 </button>
               )}
               
+              {(Object.keys(errorCounts).length > 0 || errorFilter !== 'ALL') && (
+                <select
+                  value={errorFilter}
+                  onChange={(e) => setErrorFilter(e.target.value as ErrorCode | 'ALL')}
+                  className="bg-gray-700 border border-gray-600 rounded px-2 text-xs text-gray-200"
+                  title="오류 유형별 보기 / 재시도"
+                >
+                  <option value="ALL">전체 보기</option>
+                  {(Object.keys(ERROR_CODE_LABELS) as ErrorCode[]).filter(code => errorCounts[code] || code === errorFilter).map(code => (
+                    <option key={code} value={code}>{ERROR_CODE_LABELS[code]} ({errorCounts[code] ?? 0})</option>
+                  ))}
+                </select>
+              )}
+
               <button
                 onClick={handleRetryFailed}
-                disabled={scenes.filter(s => s.status === SceneStatus.ERROR).length === 0 || isProcessing}
+                disabled={visibleScenes.filter(s => s.status === SceneStatus.ERROR).length === 0 || isSceneListLocked}
                 className="bg-yellow-600 hover:bg-yellow-500 text-white px-4 py-2 rounded font-bold text-sm shadow transition-all disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
               >
-                오류 재시도
+                {errorFilter === 'ALL' ? '오류 재시도' : '이 유형 재시도'}
               </button>
             </div>
           </div>
@@ -418,13 +1245,20 @@ const App: React.FC = () => {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
-                {scenes.map((scene) => (
+                {visibleScenes.map((scene) => (
                   <SceneCard 
-                    key={scene.id} 
+                    key={scene.uid} 
                     scene={scene} 
+                    promptOptions={promptOptions}
                     isSelected={selectedIds.has(scene.id)}
+                    isBusy={isSceneListLocked}
                     onToggleSelect={toggleSelection}
-                    onRetry={handleManualRetry} 
+                    onRetry={handleManualRetry}
+                    onSave={handleSaveSceneEdit}
+                    onOperation={handleSceneOperation}
+                    onSelectTake={handleSelectTake}
+                    onMove={handleMoveScene}
+                    onDownload={handleDownloadTake}
                   />
                 ))}
               </div>
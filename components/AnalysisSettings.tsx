@@ -0,0 +1,101 @@
+import React from 'react';
+import { AnalysisOptions, AnalysisGranularity, ScriptLanguage } from '../types';
+import { ANALYSIS_GRANULARITY_LABELS, MAX_SCENES, SCRIPT_LANGUAGES } from '../constants';
+
+interface AnalysisSettingsProps {
+  options: AnalysisOptions;
+  disabled: boolean;
+  onChange: (patch: Partial<AnalysisOptions>) => void;
+}
+
+const LANGUAGES = Object.keys(SCRIPT_LANGUAGES) as ScriptLanguage[];
+const selectClass = "flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+const clampCount = (value: string) => Math.max(0, Math.min(MAX_SCENES, Math.round(Number(value) || 0)));
+
+export const AnalysisSettings: React.FC<AnalysisSettingsProps> = ({ options, disabled, onChange }) => (
+  <div className="flex flex-col gap-2 mb-2 text-xs text-gray-400">
+    <div className="flex items-center gap-2">
+      <span className="w-16 shrink-0">대본 언어</span>
+      <select
+        className={selectClass}
+        value={options.language}
+        disabled={disabled}
+        onChange={(e) => onChange({ language: e.target.value as AnalysisOptions['language'] })}
+      >
+        <option value="auto">자동 감지</option>
+        {LANGUAGES.map(l => <option key={l} value={l}>{SCRIPT_LANGUAGES[l].label}</option>)}
+      </select>
+      <span className="shrink-0">자막</span>
+      <select
+        className={selectClass}
+        value={options.captionLanguage}
+        disabled={disabled}
+        title="장면마다 대사를 번역한 자막을 함께 만듭니다"
+        onChange={(e) => onChange({ captionLanguage: e.target.value as AnalysisOptions['captionLanguage'] })}
+      >
+        <option value="none">없음</option>
+        {LANGUAGES.map(l => <option key={l} value={l}>{SCRIPT_LANGUAGES[l].label}</option>)}
+      </select>
+    </div>
+    <div className="flex items-center gap-2">
+      <span className="w-16 shrink-0">분할 단위</span>
+      <select
+        className={selectClass}
+        value={options.granularity}
+        disabled={disabled}
+        onChange={(e) => onChange({ granularity: e.target.value as AnalysisGranularity })}
+      >
+        {(Object.keys(ANALYSIS_GRANULARITY_LABELS) as AnalysisGranularity[]).map(g => (
+          <option key={g} value={g}>{ANALYSIS_GRANULARITY_LABELS[g]}</option>
+        ))}
+      </select>
+    </div>
+    <div className="flex items-center gap-2">
+      <label className="flex items-center gap-1" title="0이면 분할 단위에 맡깁니다">
+        목표 장면 수
+        <input
+          type="number"
+          min={0}
+          max={MAX_SCENES}
+          className="w-16 bg-gray-900 border border-gray-700 rounded px-1 text-gray-200"
+          value={options.targetSceneCount}
+          disabled={disabled}
+          onChange={(e) => onChange({ targetSceneCount: clampCount(e.target.value) })}
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        최대
+        <input
+          type="number"
+          min={1}
+          max={MAX_SCENES}
+          className="w-16 bg-gray-900 border border-gray-700 rounded px-1 text-gray-200"
+          value={options.maxSceneCount}
+          disabled={disabled}
+          onChange={(e) => onChange({ maxSceneCount: Math.max(1, clampCount(e.target.value)) })}
+        />
+      </label>
+    </div>
+    <div className="flex items-center gap-4">
+      <label className="flex items-center gap-1 text-gray-300">
+        <input
+          type="checkbox"
+          checked={options.insertShots}
+          disabled={disabled}
+          onChange={(e) => onChange({ insertShots: e.target.checked })}
+        />
+        인서트 컷
+      </label>
+      <label className="flex items-center gap-1 text-gray-300">
+        <input
+          type="checkbox"
+          checked={options.reactionShots}
+          disabled={disabled}
+          onChange={(e) => onChange({ reactionShots: e.target.checked })}
+        />
+        리액션 컷
+      </label>
+    </div>
+  </div>
+);
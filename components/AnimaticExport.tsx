@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { AnimaticOptions, AnimaticResolution, CaptionSource } from '../types';
+import { ANIMATIC_RESOLUTIONS } from '../constants';
+import { formatDuration } from '../utils/durationUtils';
+
+interface AnimaticExportProps {
+  options: AnimaticOptions;
+  sceneCount: number; // Scenes with an image, i.e. what will be rendered
+  duration: number; // Seconds
+  progress: number | null; // 0..1 while rendering
+  disabled: boolean;
+  onChange: (patch: Partial<AnimaticOptions>) => void;
+  onExport: () => void;
+  onCancel: () => void;
+}
+
+const CAPTION_LABELS: Record<CaptionSource, string> = {
+  none: '없음',
+  script: '대사 원문',
+  caption: '번역 자막 (없으면 원문)',
+};
+
+const inputClass = "bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+export const AnimaticExport: React.FC<AnimaticExportProps> = ({ options, sceneCount, duration, progress, disabled, onChange, onExport, onCancel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isRendering = progress !== null;
+  const locked = disabled || isRendering;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-lg flex flex-col gap-2 text-sm">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-gray-200">애니매틱 (WebM)</h3>
+        <span className="text-xs text-gray-400">{isOpen ? '접기' : '펼치기'}</span>
+      </button>
+      {isOpen && (
+        <div className="flex flex-col gap-2 text-xs text-gray-400">
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1">
+              해상도
+              <select
+                className={inputClass}
+                value={options.resolution}
+                disabled={locked}
+                onChange={(e) => onChange({ resolution: e.target.value as AnimaticResolution })}
+              >
+                {(Object.keys(ANIMATIC_RESOLUTIONS) as AnimaticResolution[]).map(r => (
+                  <option key={r} value={r}>{ANIMATIC_RESOLUTIONS[r].label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              FPS
+              <select
+                className={inputClass}
+                value={options.fps}
+                disabled={locked}
+                onChange={(e) => onChange({ fps: Number(e.target.value) })}
+              >
+                {[24, 30, 60].map(fps => <option key={fps} value={fps}>{fps}</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1 text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.kenBurns}
+                disabled={locked}
+                onChange={(e) => onChange({ kenBurns: e.target.checked })}
+              />
+              켄 번즈 (팬/줌)
+            </label>
+            <label className="flex items-center gap-1">
+              크로스페이드
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                className={`w-14 ${inputClass}`}
+                value={options.crossfadeSec}
+                disabled={locked}
+                onChange={(e) => onChange({ crossfadeSec: Math.max(0, Math.min(2, Number(e.target.value) || 0)) })}
+              />
+              초
+            </label>
+          </div>
+          <label className="flex items-center gap-1">
+            자막
+            <select
+              className={`flex-1 ${inputClass}`}
+              value={options.captions}
+              disabled={locked}
+              onChange={(e) => onChange({ captions: e.target.value as CaptionSource })}
+            >
+              {(Object.keys(CAPTION_LABELS) as CaptionSource[]).map(c => <option key={c} value={c}>{CAPTION_LABELS[c]}</option>)}
+            </select>
+          </label>
+          <p className="text-[10px] text-gray-500">
+            완료된 장면 {sceneCount}개 · 총 {formatDuration(duration)}. 영상 길이만큼 실시간으로 녹화되며, 탭을 전환하면 끊길 수 있습니다.
+          </p>
+          {isRendering ? (
+            <div className="flex items-center gap-2">
+              <div className="flex-1 h-1.5 bg-gray-900 rounded overflow-hidden">
+                <div className="h-full bg-purple-500 transition-all duration-300" style={{ width: `${progress * 100}%` }} />
+              </div>
+              <span className="w-10 text-right">{Math.round(progress * 100)}%</span>
+              <button onClick={onCancel} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded">
+                취소
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={onExport}
+              disabled={disabled || sceneCount === 0}
+              className="py-1.5 bg-purple-700 hover:bg-purple-600 text-white rounded font-bold transition-colors disabled:opacity-50"
+            >
+              애니매틱 내보내기
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
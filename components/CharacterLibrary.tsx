@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Character } from '../types';
+import { createCharacterId } from '../utils/characterUtils';
+import { ReferenceImages } from './ReferenceImages';
+
+interface CharacterLibraryProps {
+  characters: Character[];
+  disabled: boolean;
+  onChange: (characters: Character[]) => void;
+  onError: (message: string) => void;
+}
+
+export const CharacterLibrary: React.FC<CharacterLibraryProps> = ({ characters, disabled, onChange, onError }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const updateCharacter = (id: string, patch: Partial<Character>) => {
+    onChange(characters.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const id = createCharacterId(name, characters);
+    onChange([...characters, { id, name, description: '', referenceImages: [] }]);
+    setNewName('');
+    setExpandedId(id);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-lg flex flex-col gap-2 text-sm">
+      <h3 className="text-lg font-bold text-gray-200">캐릭터 라이브러리</h3>
+      <p className="text-xs text-gray-400">
+        대본 분석 시 반복 등장하는 인물은 자동으로 추가됩니다. 장면에 등장하는 캐릭터의 설명과 참조 이미지가 프롬프트에 포함됩니다.
+      </p>
+
+      {characters.map(character => {
+        const isExpanded = expandedId === character.id;
+        return (
+          <div key={character.id} className="bg-gray-900 rounded p-2 flex flex-col gap-1">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : character.id)}
+                className="flex-1 text-left text-gray-200 font-bold truncate"
+                title={character.description}
+              >
+                {isExpanded ? '▾' : '▸'} {character.name}
+                <span className="ml-1 text-[10px] font-normal text-gray-500">{character.id}</span>
+              </button>
+              {character.referenceImages.length > 0 && (
+                <span className="text-[10px] text-gray-400">참조 {character.referenceImages.length}</span>
+              )}
+              {!disabled && (
+                <button
+                  onClick={() => onChange(characters.filter(c => c.id !== character.id))}
+                  className="text-[10px] text-red-400 hover:text-red-300"
+                >
+                  삭제
+                </button>
+              )}
+            </div>
+            {isExpanded && (
+              <>
+                <input
+                  type="text"
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+                  value={character.name}
+                  disabled={disabled}
+                  onChange={(e) => updateCharacter(character.id, { name: e.target.value })}
+                />
+                <textarea
+                  className="bg-gray-800 border border-gray-700 rounded p-2 text-xs text-gray-200 focus:outline-none focus:border-blue-500 resize-y"
+                  rows={6}
+                  placeholder="외형 설명 (영문 권장): 나이, 체형, 머리, 옷, 색상..."
+                  value={character.description}
+                  disabled={disabled}
+                  onChange={(e) => updateCharacter(character.id, { description: e.target.value })}
+                />
+                <ReferenceImages
+                  images={character.referenceImages}
+                  disabled={disabled}
+                  onChange={(referenceImages) => updateCharacter(character.id, { referenceImages })}
+                  onError={onError}
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="새 캐릭터 이름"
+          className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:outline-none focus:border-blue-500"
+          value={newName}
+          disabled={disabled}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={disabled || !newName.trim()}
+          className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-gray-300 disabled:opacity-50"
+        >
+          추가
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ContactSheetOptions, PageOrientation } from '../types';
+import { CONTACT_SHEET_GRID_RANGE } from '../constants';
+import { getContactSheetPageCount } from '../services/contactSheetExport';
+
+interface ContactSheetExportProps {
+  options: ContactSheetOptions;
+  sceneCount: number; // Every scene is printed; scenes without an image get a placeholder
+  progress: { done: number; total: number } | null; // Pages rendered while building the PDF
+  disabled: boolean;
+  onChange: (patch: Partial<ContactSheetOptions>) => void;
+  onExport: (format: 'html' | 'pdf') => void;
+}
+
+const inputClass = "bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+export const ContactSheetExport: React.FC<ContactSheetExportProps> = ({ options, sceneCount, progress, disabled, onChange, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const locked = disabled || progress !== null;
+  const pageCount = getContactSheetPageCount(sceneCount, options);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-lg flex flex-col gap-2 text-sm">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-gray-200">콘티 시트 (인쇄 / PDF)</h3>
+        <span className="text-xs text-gray-400">{isOpen ? '접기' : '펼치기'}</span>
+      </button>
+      {isOpen && (
+        <div className="flex flex-col gap-2 text-xs text-gray-400">
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1">
+              격자
+              <select
+                className={inputClass}
+                value={options.columns}
+                disabled={locked}
+                onChange={(e) => onChange({ columns: Number(e.target.value) })}
+              >
+                {CONTACT_SHEET_GRID_RANGE.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+              ×
+              <select
+                className={inputClass}
+                value={options.rows}
+                disabled={locked}
+                onChange={(e) => onChange({ rows: Number(e.target.value) })}
+              >
+                {CONTACT_SHEET_GRID_RANGE.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              용지
+              <select
+                className={inputClass}
+                value={options.orientation}
+                disabled={locked}
+                onChange={(e) => onChange({ orientation: e.target.value as PageOrientation })}
+              >
+                <option value="landscape">A4 가로</option>
+                <option value="portrait">A4 세로</option>
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center gap-1 text-gray-300">
+            <input
+              type="checkbox"
+              checked={options.showPrompt}
+              disabled={locked}
+              onChange={(e) => onChange({ showPrompt: e.target.checked })}
+            />
+            프롬프트 포함
+          </label>
+          <p className="text-[10px] text-gray-500">
+            장면 {sceneCount}개 → 표지 + {pageCount}쪽. HTML은 브라우저에서 인쇄(PDF로 저장)할 수 있고, PDF는 바로 저장됩니다.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onExport('html')}
+              disabled={locked || sceneCount === 0}
+              className="flex-1 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded transition-colors disabled:opacity-50"
+            >
+              HTML (인쇄용)
+            </button>
+            <button
+              onClick={() => onExport('pdf')}
+              disabled={locked || sceneCount === 0}
+              className="flex-1 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded transition-colors disabled:opacity-50"
+            >
+              {progress ? `PDF 생성 중... (${progress.done}/${progress.total})` : 'PDF'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
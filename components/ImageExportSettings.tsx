@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { ImageExportOptions, ExportResolution, ExportImageFormat, CaptionSource } from '../types';
+import { EXPORT_RESOLUTIONS, EXPORT_IMAGE_FORMATS } from '../constants';
+
+interface ImageExportSettingsProps {
+  options: ImageExportOptions;
+  disabled: boolean;
+  onChange: (patch: Partial<ImageExportOptions>) => void;
+}
+
+const CAPTION_LABELS: Record<CaptionSource, string> = {
+  none: '없음',
+  script: '대사 원문',
+  caption: '번역 자막 (없으면 원문)',
+};
+
+const inputClass = "bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+// Applies to the ZIP download and to the download button on each scene card
+export const ImageExportSettings: React.FC<ImageExportSettingsProps> = ({ options, disabled, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isLossy = options.format === 'jpeg' || options.format === 'webp';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-lg flex flex-col gap-2 text-sm">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-gray-200">이미지 내보내기</h3>
+        <span className="text-xs text-gray-400">{isOpen ? '접기' : '펼치기'}</span>
+      </button>
+      {isOpen && (
+        <div className="flex flex-col gap-2 text-xs text-gray-400">
+          <label className="flex items-center gap-1">
+            해상도
+            <select
+              className={`flex-1 ${inputClass}`}
+              value={options.resolution}
+              disabled={disabled}
+              onChange={(e) => onChange({ resolution: e.target.value as ExportResolution })}
+            >
+              {(Object.keys(EXPORT_RESOLUTIONS) as ExportResolution[]).map(r => (
+                <option key={r} value={r}>{EXPORT_RESOLUTIONS[r].label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1">
+              형식
+              <select
+                className={inputClass}
+                value={options.format}
+                disabled={disabled}
+                onChange={(e) => onChange({ format: e.target.value as ExportImageFormat })}
+              >
+                {(Object.keys(EXPORT_IMAGE_FORMATS) as ExportImageFormat[]).map(f => (
+                  <option key={f} value={f}>{EXPORT_IMAGE_FORMATS[f].label}</option>
+                ))}
+              </select>
+            </label>
+            {isLossy && (
+              <label className="flex items-center gap-1 flex-1">
+                품질
+                <input
+                  type="range"
+                  min={0.5}
+                  max={1}
+                  step={0.01}
+                  className="flex-1"
+                  value={options.quality}
+                  disabled={disabled}
+                  onChange={(e) => onChange({ quality: Number(e.target.value) })}
+                />
+                <span className="w-8 text-right">{Math.round(options.quality * 100)}</span>
+              </label>
+            )}
+          </div>
+          <label className="flex items-center gap-1">
+            자막 넣기
+            <select
+              className={`flex-1 ${inputClass}`}
+              value={options.captions}
+              disabled={disabled}
+              onChange={(e) => onChange({ captions: e.target.value as CaptionSource })}
+            >
+              {(Object.keys(CAPTION_LABELS) as CaptionSource[]).map(c => <option key={c} value={c}>{CAPTION_LABELS[c]}</option>)}
+            </select>
+          </label>
+          <p className="text-[10px] text-gray-500">
+            전체 다운로드(ZIP)와 장면별 다운로드에 적용됩니다. 지정 해상도에서는 이미지를 자르지 않고 남는 부분을 검은 여백으로 채웁니다.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Scene } from '../types';
+import { NARRATION_MATCH_THRESHOLD } from '../constants';
+import { SceneAlignment } from '../utils/narrationAlign';
+import { formatTimestamp } from '../utils/durationUtils';
+
+interface NarrationReviewProps {
+  scenes: Scene[];
+  alignments: SceneAlignment[];
+  onApply: (alignments: SceneAlignment[]) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-16 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none focus:border-blue-500";
+
+// Editable table of the proposed narration timing; poorly matched scenes are highlighted
+export const NarrationReview: React.FC<NarrationReviewProps> = ({ scenes, alignments, onApply, onCancel }) => {
+  const [rows, setRows] = useState(alignments);
+  const mismatchCount = rows.filter(r => r.score < NARRATION_MATCH_THRESHOLD).length;
+
+  const updateRow = (uid: string, patch: Partial<SceneAlignment>) =>
+    setRows(prev => prev.map(r => r.uid === uid ? { ...r, ...patch } : r));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-4xl max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-gray-100">내레이션 타이밍 정렬</h2>
+          <p className="text-xs text-gray-400 mt-1">
+            장면 {rows.length}개 중 {rows.length - mismatchCount}개가 내레이션과 일치합니다.
+            {mismatchCount > 0 && <span className="text-orange-400"> 불일치 {mismatchCount}개는 직전 장면 뒤에 배치했으니 시작 시간을 확인하세요.</span>}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 text-left">
+              <tr>
+                <th className="pb-2 pr-2">#</th>
+                <th className="pb-2 pr-2">대사</th>
+                <th className="pb-2 pr-2">일치한 내레이션</th>
+                <th className="pb-2 pr-2">시작 (초)</th>
+                <th className="pb-2 pr-2">길이 (초)</th>
+                <th className="pb-2">일치도</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const scene = scenes.find(s => s.uid === row.uid);
+                const mismatch = row.score < NARRATION_MATCH_THRESHOLD;
+                return (
+                  <tr key={row.uid} className={`border-t border-gray-700 align-top ${mismatch ? 'bg-orange-900/20' : ''}`}>
+                    <td className="py-1 pr-2 text-gray-400">{scene?.id}</td>
+                    <td className="py-1 pr-2 text-gray-200">{scene?.scriptSegment}</td>
+                    <td className="py-1 pr-2 text-gray-400">{row.matchedText || <span className="text-orange-400">(일치 없음)</span>}</td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        className={inputClass}
+                        value={row.startSec}
+                        title={formatTimestamp(row.startSec)}
+                        onChange={(e) => updateRow(row.uid, { startSec: Math.max(0, Number(e.target.value) || 0) })}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min={0.1}
+                        step={0.1}
+                        className={inputClass}
+                        value={row.durationSec}
+                        onChange={(e) => updateRow(row.uid, { durationSec: Math.max(0.1, Number(e.target.value) || 0) })}
+                      />
+                    </td>
+                    <td className={`py-1 ${mismatch ? 'text-orange-400 font-bold' : 'text-gray-400'}`}>{Math.round(row.score * 100)}%</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="bg-gray-700 hover:bg-gray-600 text-gray-200 px-4 py-1.5 rounded text-sm border border-gray-600"
+          >
+            취소
+          </button>
+          <button
+            onClick={() => onApply(rows)}
+            className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-1.5 rounded text-sm font-bold"
+          >
+            적용
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { ImageTextLanguage, ScriptLanguage } from '../types';
+import { DEFAULT_PROMPT_TEMPLATE, SCRIPT_LANGUAGES } from '../constants';
+import { PROMPT_VARIABLES, PROMPT_FLAGS, validatePromptTemplate } from '../utils/promptTemplate';
+
+interface PromptTemplateEditorProps {
+  template: string;
+  imageTextLanguage: ImageTextLanguage;
+  disabled: boolean;
+  onSave: (template: string) => void;
+  onImageTextLanguageChange: (language: ImageTextLanguage) => void;
+}
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ template, imageTextLanguage, disabled, onSave, onImageTextLanguageChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(template);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Follow external changes (session restore, project import)
+  useEffect(() => {
+    setDraft(template);
+    setErrors([]);
+  }, [template]);
+
+  const handleSave = () => {
+    const problems = validatePromptTemplate(draft);
+    setErrors(problems);
+    if (problems.length === 0) onSave(draft);
+  };
+
+  const isDirty = draft !== template;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-lg flex flex-col gap-2 text-sm">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-gray-200">프롬프트 템플릿</h3>
+        <span className="text-xs text-gray-400">{isOpen ? '접기' : '펼치기'}</span>
+      </button>
+      <label className="flex items-center gap-2 text-xs text-gray-400" title="{{textRule}} 변수와 QA 검사에 쓰입니다">
+        <span className="shrink-0">이미지 속 글자</span>
+        <select
+          className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+          value={imageTextLanguage}
+          disabled={disabled}
+          onChange={(e) => onImageTextLanguageChange(e.target.value as ImageTextLanguage)}
+        >
+          <option value="none">글자 없음</option>
+          {(Object.keys(SCRIPT_LANGUAGES) as ScriptLanguage[]).map(l => (
+            <option key={l} value={l}>{SCRIPT_LANGUAGES[l].label}만 허용</option>
+          ))}
+        </select>
+      </label>
+      {isOpen && (
+        <>
+          <textarea
+            className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-xs font-mono text-gray-200 focus:outline-none focus:border-blue-500 resize-y"
+            rows={8}
+            value={draft}
+            disabled={disabled}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 list-disc list-inside">
+              {errors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={disabled || !isDirty}
+              className="flex-1 py-1 bg-blue-700 hover:bg-blue-600 text-white text-xs rounded transition-colors disabled:opacity-50"
+            >
+              저장
+            </button>
+            <button
+              onClick={() => { setDraft(DEFAULT_PROMPT_TEMPLATE); setErrors([]); }}
+              disabled={disabled}
+              className="py-1 px-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors disabled:opacity-50"
+            >
+              기본값
+            </button>
+          </div>
+          <div className="text-[10px] text-gray-400 space-y-0.5">
+            {Object.entries(PROMPT_VARIABLES).map(([name, label]) => (
+              <div key={name}><code className="text-gray-300">{`{{${name}}}`}</code> {label}</div>
+            ))}
+            {Object.entries(PROMPT_FLAGS).map(([name, label]) => (
+              <div key={name}><code className="text-gray-300">{`{{#if ${name}}}…{{else}}…{{/if}}`}</code> {label}</div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
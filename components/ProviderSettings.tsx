@@ -0,0 +1,198 @@
+import React from 'react';
+import { ProjectSettings, ModelChainEntry } from '../types';
+import { listImageProviders } from '../services/imageProviders';
+import { GOOGLE_PROVIDER_ID, IMAGE_MODEL_LABELS, MAX_CONCURRENCY } from '../constants';
+
+interface ProviderSettingsProps {
+  settings: ProjectSettings;
+  endpointApiKey: string;
+  disabled: boolean;
+  onChange: (patch: Partial<ProjectSettings>) => void;
+  onEndpointApiKeyChange: (key: string) => void;
+}
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ settings, endpointApiKey, disabled, onChange, onEndpointApiKeyChange }) => {
+  const providers = listImageProviders();
+  const selected = providers.find(p => p.id === settings.imageProviderId) ?? providers[0];
+
+  const updateChain = (chain: ModelChainEntry[]) => onChange({ modelChain: chain });
+
+  const updateEntry = (index: number, patch: Partial<ModelChainEntry>) => {
+    updateChain(settings.modelChain.map((entry, i) => i === index ? { ...entry, ...patch } : entry));
+  };
+
+  const moveEntry = (index: number, step: number) => {
+    const target = index + step;
+    if (target < 0 || target >= settings.modelChain.length) return;
+    const chain = [...settings.modelChain];
+    [chain[index], chain[target]] = [chain[target], chain[index]];
+    updateChain(chain);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-lg flex flex-col gap-2 text-sm">
+      <h3 className="text-lg font-bold text-gray-200">이미지 생성 엔진</h3>
+      <select
+        className="bg-gray-900 border border-gray-700 rounded px-3 py-1.5 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+        value={settings.imageProviderId}
+        disabled={disabled}
+        onChange={(e) => onChange({ imageProviderId: e.target.value })}
+      >
+        {providers.map(p => (
+          <option key={p.id} value={p.id}>{p.label}</option>
+        ))}
+      </select>
+
+      {selected.id === GOOGLE_PROVIDER_ID && (
+        <div className="flex flex-col gap-1">
+          <span className="text-xs text-gray-400">모델 순서 (위에서부터 시도, 실패 시 다음 모델)</span>
+          {settings.modelChain.map((entry, index) => (
+            <div key={entry.model} className={`flex items-center gap-2 bg-gray-900 rounded px-2 py-1 ${entry.enabled ? '' : 'opacity-50'}`}>
+              <input
+                type="checkbox"
+                checked={entry.enabled}
+                disabled={disabled}
+                onChange={(e) => updateEntry(index, { enabled: e.target.checked })}
+              />
+              <span className="flex-1 text-xs text-gray-200">{IMAGE_MODEL_LABELS[entry.model] || entry.model}</span>
+              <label className="text-[10px] text-gray-400 flex items-center gap-1" title="사용량 제한 시 재시도 횟수">
+                재시도
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  className="w-10 bg-gray-800 border border-gray-700 rounded px-1 text-gray-200"
+                  value={entry.retries}
+                  disabled={disabled}
+                  onChange={(e) => updateEntry(index, { retries: Math.max(0, Math.min(10, Number(e.target.value) || 0)) })}
+                />
+              </label>
+              <button onClick={() => moveEntry(index, -1)} disabled={disabled || index === 0} className="text-gray-400 hover:text-gray-200 disabled:opacity-30">▲</button>
+              <button onClick={() => moveEntry(index, 1)} disabled={disabled || index === settings.modelChain.length - 1} className="text-gray-400 hover:text-gray-200 disabled:opacity-30">▼</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected.needsEndpoint && (
+        <>
+          <input
+            type="text"
+            placeholder="엔드포인트 주소 (예: http://127.0.0.1:7860)"
+            className="bg-gray-900 border border-gray-700 rounded px-3 py-1.5 focus:outline-none focus:border-blue-500"
+            value={settings.endpointUrl}
+            disabled={disabled}
+            onChange={(e) => onChange({ endpointUrl: e.target.value })}
+          />
+          <input
+            type="text"
+            placeholder="모델 이름 (선택)"
+            className="bg-gray-900 border border-gray-700 rounded px-3 py-1.5 focus:outline-none focus:border-blue-500"
+            value={settings.endpointModel}
+            disabled={disabled}
+            onChange={(e) => onChange({ endpointModel: e.target.value })}
+          />
+          <input
+            type="password"
+            placeholder="엔드포인트 API 키 (선택, 저장되지 않음)"
+            className="bg-gray-900 border border-gray-700 rounded px-3 py-1.5 focus:outline-none focus:border-blue-500"
+            value={endpointApiKey}
+            disabled={disabled}
+            onChange={(e) => onEndpointApiKeyChange(e.target.value)}
+          />
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-400 flex flex-col gap-1" title="모델마다 분당 허용 요청 수 (무료 등급은 2 권장)">
+          분당 요청 수 (모델별)
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 disabled:opacity-50"
+            value={settings.requestsPerMinute}
+            disabled={disabled || !selected.rateLimited}
+            onChange={(e) => onChange({ requestsPerMinute: Math.max(0.5, Number(e.target.value) || 0.5) })}
+          />
+        </label>
+        <label className="text-xs text-gray-400 flex flex-col gap-1" title="동시에 생성할 장면 수">
+          동시 작업자 수
+          <input
+            type="number"
+            min={1}
+            max={MAX_CONCURRENCY}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 disabled:opacity-50"
+            value={settings.concurrency}
+            disabled={disabled}
+            onChange={(e) => onChange({ concurrency: Math.max(1, Math.min(MAX_CONCURRENCY, Math.floor(Number(e.target.value)) || 1)) })}
+          />
+        </label>
+        <label className="text-xs text-gray-400 flex flex-col gap-1" title="대본 분석, 프롬프트 재작성, QA 검사에 쓰는 Gemini 텍스트 모델의 분당 요청 수 (이미지 생성과 별도)">
+          분당 요청 수 (분석/QA)
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 disabled:opacity-50"
+            value={settings.textRequestsPerMinute}
+            disabled={disabled}
+            onChange={(e) => onChange({ textRequestsPerMinute: Math.max(0.5, Number(e.target.value) || 0.5) })}
+          />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-300" title="안전 정책으로 차단되면 Gemini가 이야기 흐름을 유지한 채 프롬프트를 다시 써서 한 번 더 시도합니다. (Gemini API 키 필요)">
+        <input
+          type="checkbox"
+          checked={settings.autoSafetyRewrite}
+          disabled={disabled}
+          onChange={(e) => onChange({ autoSafetyRewrite: e.target.checked })}
+        />
+        안전 차단 시 프롬프트 자동 재작성
+      </label>
+
+      <label className="flex items-center gap-2 text-xs text-gray-300" title="생성된 이미지를 Gemini 비전 모델로 캐릭터 규칙(I/F 눈, 빨간 입, 검은 갓 등)에 맞는지 검사합니다. (Gemini API 키 필요)">
+        <input
+          type="checkbox"
+          checked={settings.qaEnabled}
+          disabled={disabled}
+          onChange={(e) => onChange({ qaEnabled: e.target.checked })}
+        />
+        캐릭터 일관성 QA 검사
+      </label>
+      {settings.qaEnabled && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-400 flex flex-col gap-1" title="이 점수 미만이면 자동으로 다시 생성합니다.">
+            통과 기준 ({Math.round(settings.qaThreshold * 100)}%)
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              value={Math.round(settings.qaThreshold * 100)}
+              disabled={disabled}
+              onChange={(e) => onChange({ qaThreshold: Number(e.target.value) / 100 })}
+            />
+          </label>
+          <label className="text-xs text-gray-400 flex flex-col gap-1">
+            최대 재생성 횟수
+            <input
+              type="number"
+              min={0}
+              max={5}
+              className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 disabled:opacity-50"
+              value={settings.qaMaxRegenerations}
+              disabled={disabled}
+              onChange={(e) => onChange({ qaMaxRegenerations: Math.max(0, Math.min(5, Math.floor(Number(e.target.value)) || 0)) })}
+            />
+          </label>
+        </div>
+      )}
+
+      {!selected.rateLimited && (
+        <p className="text-xs text-gray-400">이 엔진은 분당 요청 제한 없이 바로 생성합니다.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { ReviewedSection, SceneChange, SceneChangeKind } from '../utils/scriptDiff';
+
+interface ReanalysisReviewProps {
+  sections: ReviewedSection[];
+  newCharacterNames: string[];
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const KIND_STYLES: Record<SceneChangeKind, { label: string; className: string }> = {
+  kept: { label: '유지', className: 'bg-gray-700 text-gray-300' },
+  changed: { label: '변경', className: 'bg-yellow-900/60 text-yellow-200' },
+  added: { label: '추가', className: 'bg-green-900/60 text-green-200' },
+  removed: { label: '삭제', className: 'bg-red-900/60 text-red-200' },
+};
+
+const ChangeRow: React.FC<{ change: SceneChange }> = ({ change }) => {
+  const { label, className } = KIND_STYLES[change.kind];
+  const before = change.before;
+  const after = change.after;
+  return (
+    <li className="flex gap-2 items-start py-1 border-b border-gray-800 last:border-0">
+      <span className={`shrink-0 px-1.5 rounded text-[10px] font-bold ${className}`}>{label}</span>
+      <div className="flex-1 min-w-0 text-xs">
+        {before && change.kind !== 'kept' && (
+          <p className={`text-gray-500 ${change.kind === 'changed' ? 'line-through' : ''}`}>
+            #{before.id} {before.scriptSegment}
+            {before.takes.length > 0 && <span className="ml-1 text-gray-600">(이미지 {before.takes.length}개{change.kind === 'changed' ? ' 이력 유지' : ''})</span>}
+          </p>
+        )}
+        {after && (
+          <p className="text-gray-200">
+            {change.kind === 'kept' && `#${after.id} `}{after.scriptSegment}
+          </p>
+        )}
+      </div>
+    </li>
+  );
+};
+
+// Shown after a partial re-analysis; nothing touches the gallery until the user applies it
+export const ReanalysisReview: React.FC<ReanalysisReviewProps> = ({ sections, newCharacterNames, onApply, onCancel }) => {
+  const changes = sections.flatMap(s => s.changes);
+  const count = (kind: SceneChangeKind) => changes.filter(c => c.kind === kind).length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-gray-100">대본 변경 사항 검토</h2>
+          <p className="text-xs text-gray-400 mt-1">
+            변경된 구간 {sections.length}개 · 유지 {count('kept')} · 변경 {count('changed')} · 추가 {count('added')} · 삭제 {count('removed')}
+            {' '}(바뀌지 않은 구간의 장면과 이미지는 그대로 유지됩니다)
+          </p>
+          {newCharacterNames.length > 0 && (
+            <p className="text-xs text-blue-300 mt-1">새 캐릭터: {newCharacterNames.join(', ')}</p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-4">
+          {sections.map((section, index) => (
+            <div key={index} className="bg-gray-900 rounded p-3">
+              <div className="grid grid-cols-2 gap-2 mb-2 text-[11px]">
+                <div>
+                  <span className="text-gray-500">이전 대본</span>
+                  <p className="text-red-300/80 whitespace-pre-wrap line-clamp-4">{section.oldText || '(없음)'}</p>
+                </div>
+                <div>
+                  <span className="text-gray-500">새 대본</span>
+                  <p className="text-green-300/80 whitespace-pre-wrap line-clamp-4">{section.newText || '(삭제됨)'}</p>
+                </div>
+              </div>
+              <ul>
+                {section.changes.map((change, i) => <ChangeRow key={i} change={change} />)}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="bg-gray-700 hover:bg-gray-600 text-gray-200 px-4 py-1.5 rounded text-sm border border-gray-600"
+          >
+            취소
+          </button>
+          <button
+            onClick={onApply}
+            className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-1.5 rounded text-sm font-bold"
+          >
+            적용
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
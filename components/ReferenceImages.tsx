@@ -0,0 +1,65 @@
+import React, { useRef } from 'react';
+import { ReferenceImage } from '../types';
+import { fileToResizedDataUrl } from '../utils/imageUtils';
+import { REFERENCE_IMAGE_MAX_SIZE, MAX_REFERENCE_IMAGES } from '../constants';
+
+interface ReferenceImagesProps {
+  images: ReferenceImage[];
+  disabled: boolean;
+  onChange: (images: ReferenceImage[]) => void;
+  onError: (message: string) => void;
+}
+
+// Thumbnail strip with upload/remove, used per character in the character library
+export const ReferenceImages: React.FC<ReferenceImagesProps> = ({ images, disabled, onChange, onError }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const room = MAX_REFERENCE_IMAGES - images.length;
+    if (files.length > room) {
+      onError(`참조 이미지는 캐릭터당 최대 ${MAX_REFERENCE_IMAGES}개까지 등록할 수 있습니다.`);
+    }
+
+    try {
+      const added = await Promise.all(files.slice(0, Math.max(0, room)).map(async (file) => ({
+        id: Math.random().toString(36).substring(2, 10),
+        name: file.name,
+        imageUrl: await fileToResizedDataUrl(file, REFERENCE_IMAGE_MAX_SIZE),
+      })));
+      if (added.length > 0) onChange([...images, ...added]);
+    } catch (error: any) {
+      onError(`참조 이미지 등록 실패: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {images.map(img => (
+        <div key={img.id} className="relative group w-12 h-12 bg-gray-900 rounded overflow-hidden">
+          <img src={img.imageUrl} alt={img.name} title={img.name} className="w-full h-full object-contain" />
+          {!disabled && (
+            <button
+              onClick={() => onChange(images.filter(i => i.id !== img.id))}
+              className="absolute inset-0 bg-black/70 text-red-300 text-[10px] opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              삭제
+            </button>
+          )}
+        </div>
+      ))}
+      {images.length < MAX_REFERENCE_IMAGES && (
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          title="Gemini 2.5 Flash Image로 함께 전송됩니다. 다른 모델은 텍스트 설명만 사용합니다."
+          className="w-12 h-12 border border-dashed border-gray-600 rounded text-[10px] text-gray-400 hover:border-gray-400 hover:text-gray-200 disabled:opacity-50"
+        >
+          + 참조
+        </button>
+      )}
+      <input ref={inputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+    </div>
+  );
+};
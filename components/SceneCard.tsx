@@ -1,15 +1,75 @@
 
-import React from 'react';
-import { Scene, SceneStatus } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Scene, SceneStatus, SceneEdit, SceneTake, ShotType, CameraAngle } from '../types';
+import { SceneOperation } from '../utils/sceneOps';
+import { getSelectedTake } from '../utils/takeUtils';
+import { getSceneCharacters } from '../utils/characterUtils';
+import { ScenePromptOptions, buildScenePrompt } from '../utils/promptTemplate';
+import { IMAGE_MODEL_LABELS, SHOT_TYPES, CAMERA_ANGLES, NARRATION_MATCH_THRESHOLD } from '../constants';
+import { estimateNarrationSeconds, formatDuration, formatTimestamp } from '../utils/durationUtils';
+import { ERROR_CODE_LABELS } from '../services/errors';
 
 interface SceneCardProps {
   scene: Scene;
+  promptOptions: ScenePromptOptions; // Library, style and template used to render the final prompt
   isSelected: boolean;
+  isBusy: boolean; // Queue or analysis is running; regenerate and restructuring are not available
   onToggleSelect: (id: number) => void;
   onRetry: (id: number) => void;
+  onSave: (id: number, edit: SceneEdit, regenerate: boolean) => void;
+  onOperation: (id: number, op: SceneOperation) => void;
+  onMove: (fromId: number, toId: number) => void;
+  onSelectTake: (id: number, takeId: string) => void;
+  onDownload: (id: number, take: SceneTake) => void; // Runs the image export settings
 }
 
-export const SceneCard: React.FC<SceneCardProps> = ({ scene, isSelected, onToggleSelect, onRetry }) => {
+const toSceneEdit = (scene: Scene): SceneEdit => ({
+  scriptSegment: scene.scriptSegment,
+  caption: scene.caption,
+  englishPrompt: scene.englishPrompt,
+  characterIds: scene.characterIds,
+  shotType: scene.shotType,
+  cameraAngle: scene.cameraAngle,
+  location: scene.location,
+  durationSec: scene.durationSec,
+  startSec: scene.startSec,
+});
+
+export const SceneCard: React.FC<SceneCardProps> = ({ scene, promptOptions, isSelected, isBusy, onToggleSelect, onRetry, onSave, onOperation, onMove, onSelectTake, onDownload }) => {
+  // Freshly inserted scenes have no prompt yet, so they open straight into edit mode
+  const [isEditing, setIsEditing] = useState(!scene.englishPrompt);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [showFinalPrompt, setShowFinalPrompt] = useState(false);
+  const { characters } = promptOptions;
+  const [draft, setDraft] = useState<SceneEdit>(toSceneEdit(scene));
+
+  const isInFlight = scene.status === SceneStatus.GENERATING || scene.status === SceneStatus.RETRYING;
+  const sceneCharacters = getSceneCharacters(scene, characters);
+  // Exactly what the next (non-retry) generation will send
+  const finalPrompt = showFinalPrompt ? buildScenePrompt(scene, false, promptOptions) : '';
+
+  // Take browsing: the viewed take is local; "selected" is the one used for exports
+  const [viewedTakeId, setViewedTakeId] = useState<string | undefined>();
+  const selectedTake = getSelectedTake(scene);
+  const viewedTake = scene.takes.find(t => t.id === viewedTakeId) ?? selectedTake;
+  const viewedIndex = viewedTake ? scene.takes.indexOf(viewedTake) : -1;
+
+  // Jump to the newest take when a generation finishes
+  useEffect(() => {
+    setViewedTakeId(undefined);
+  }, [scene.takes.length]);
+
+  const handleStepTake = (e: React.MouseEvent, step: number) => {
+    e.stopPropagation();
+    const next = scene.takes[(viewedIndex + step + scene.takes.length) % scene.takes.length];
+    if (next) setViewedTakeId(next.id);
+  };
+
+  const handlePickTake = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (viewedTake) onSelectTake(scene.id, viewedTake.id);
+  };
+
   const getStatusColor = () => {
     if (isSelected) return 'border-blue-400 bg-blue-900/20 ring-2 ring-blue-500'; // Selection highlight
 
@@ -24,13 +84,7 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, isSelected, onToggl
 
   const handleDownload = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!scene.imageUrl) return;
-    const link = document.createElement('a');
-    link.href = scene.imageUrl;
-    link.download = `scene_${scene.id.toString().padStart(3, '0')}_ifman.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    if (viewedTake) onDownload(scene.id, viewedTake);
   };
 
   const handleRetryClick = (e: React.MouseEvent) => {
@@ -38,10 +92,54 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, isSelected, onToggl
     onRetry(scene.id);
   };
 
+  const handleEditClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDraft(toSceneEdit(scene));
+    setIsEditing(true);
+  };
+
+  const toggleDraftCharacter = (id: string, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      characterIds: checked ? [...prev.characterIds, id] : prev.characterIds.filter(c => c !== id),
+    }));
+  };
+
+  const handleSaveClick = (regenerate: boolean) => {
+    if (!draft.englishPrompt.trim()) return;
+    onSave(scene.id, { ...draft, caption: draft.caption?.trim() || undefined, englishPrompt: draft.englishPrompt.trim() }, regenerate);
+    setIsEditing(false);
+  };
+
+  const handleOperationClick = (e: React.MouseEvent, op: SceneOperation) => {
+    e.stopPropagation();
+    onOperation(scene.id, op);
+  };
+
+  // Drag & drop reordering (drop target takes the dragged scene's place)
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData('text/plain', String(scene.id));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const fromId = Number(e.dataTransfer.getData('text/plain'));
+    if (fromId) onMove(fromId, scene.id);
+  };
+
+  const canRestructure = !isBusy && !isEditing;
+
   return (
     <div 
-      onClick={() => onToggleSelect(scene.id)}
-      className={`relative rounded-lg border p-3 flex flex-col gap-2 transition-all duration-200 cursor-pointer ${getStatusColor()}`}
+      onClick={() => !isEditing && onToggleSelect(scene.id)}
+      draggable={canRestructure}
+      onDragStart={handleDragStart}
+      onDragOver={(e) => { if (canRestructure) { e.preventDefault(); setIsDragOver(true); } }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={`relative rounded-lg border p-3 flex flex-col gap-2 transition-all duration-200 cursor-pointer ${getStatusColor()} ${isDragOver ? 'ring-2 ring-indigo-400' : ''}`}
     >
       {/* Selection Checkbox Overlay */}
       <div className="flex justify-between items-center text-xs text-gray-400">
@@ -59,9 +157,9 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, isSelected, onToggl
       </div>
 
       <div className="aspect-video bg-gray-900 rounded overflow-hidden flex items-center justify-center relative group">
-        {scene.imageUrl ? (
+        {viewedTake ? (
           <>
-            <img src={scene.imageUrl} alt={`Scene ${scene.id}`} className="w-full h-full object-cover" />
+            <img src={viewedTake.imageUrl} alt={`Scene ${scene.id}`} className="w-full h-full object-cover" />
             <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
               <button 
                 onClick={handleDownload}
@@ -73,6 +171,23 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, isSelected, onToggl
                 다운로드
               </button>
             </div>
+            <span
+              className="absolute bottom-1 right-1 bg-black/70 text-gray-200 text-[10px] px-1.5 py-0.5 rounded"
+              title={`생성 모델: ${viewedTake.model}${viewedTake.styleProfileName ? `\n스타일: ${viewedTake.styleProfileName}` : ''}`}
+            >
+              {IMAGE_MODEL_LABELS[viewedTake.model] || viewedTake.model}
+            </span>
+            {viewedTake.qa && (
+              <span
+                className={`absolute top-1 right-1 text-[10px] font-bold px-1.5 py-0.5 rounded ${viewedTake.qa.checks.every(c => c.passed) ? 'bg-green-600 text-white' : 'bg-orange-600 text-white'}`}
+                title={viewedTake.qa.checks.map(c => `${c.passed ? '✓' : '✗'} ${c.label}${c.note ? ` - ${c.note}` : ''}`).join('\n')}
+              >
+                QA {Math.round(viewedTake.qa.score * 100)}%
+              </span>
+            )}
+            {viewedTake.id === selectedTake?.id && scene.takes.length > 1 && (
+              <span className="absolute top-1 left-1 bg-yellow-500 text-black text-[10px] font-bold px-1.5 py-0.5 rounded">선택됨</span>
+            )}
           </>
         ) : (
           <div className="text-gray-600 text-sm p-4 text-center">
@@ -81,18 +196,258 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, isSelected, onToggl
         )}
       </div>
 
-      <div className="space-y-1">
-        <p className="text-xs text-gray-300 line-clamp-2" title={scene.scriptSegment}>
-          <span className="text-gray-500">대사:</span> {scene.scriptSegment}
-        </p>
-        <p className="text-[10px] text-gray-500 line-clamp-2" title={scene.englishPrompt}>
-          <span className="text-gray-600">프롬프트:</span> {scene.englishPrompt}
+      {viewedTake && (
+        <div className="flex items-center justify-between text-[10px] text-gray-400" onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center gap-1">
+            {scene.takes.length > 1 && (
+              <button onClick={(e) => handleStepTake(e, -1)} className="px-1 hover:text-gray-200">◀</button>
+            )}
+            <span title={new Date(viewedTake.createdAt).toLocaleString('ko-KR')}>
+              테이크 {viewedIndex + 1}/{scene.takes.length}
+            </span>
+            {scene.takes.length > 1 && (
+              <button onClick={(e) => handleStepTake(e, 1)} className="px-1 hover:text-gray-200">▶</button>
+            )}
+          </div>
+          {scene.takes.length > 1 && viewedTake.id !== selectedTake?.id && (
+            <button onClick={handlePickTake} className="text-yellow-400 hover:text-yellow-300">
+              이 테이크 선택
+            </button>
+          )}
+        </div>
+      )}
+
+      {viewedTake?.qa && viewedTake.qa.checks.some(c => !c.passed) && (
+        <p className="text-[10px] text-orange-300">
+          <span className="text-orange-500">QA 실패:</span>{' '}
+          {viewedTake.qa.checks.filter(c => !c.passed).map(c => c.note ? `${c.label} (${c.note})` : c.label).join(', ')}
         </p>
-      </div>
+      )}
+
+      {isEditing ? (
+        <div className="space-y-2 text-xs" onClick={(e) => e.stopPropagation()}>
+          <label className="block">
+            <span className="text-gray-500">대사</span>
+            <textarea
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 mt-1 text-gray-200 focus:outline-none focus:border-blue-500 resize-y"
+              rows={3}
+              value={draft.scriptSegment}
+              onChange={(e) => setDraft(prev => ({ ...prev, scriptSegment: e.target.value }))}
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-500">자막 번역 (선택)</span>
+            <input
+              type="text"
+              className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 mt-1 text-gray-200 focus:outline-none focus:border-blue-500"
+              value={draft.caption ?? ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, caption: e.target.value }))}
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-500">프롬프트 (영문)</span>
+            <textarea
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 mt-1 text-gray-200 focus:outline-none focus:border-blue-500 resize-y"
+              rows={4}
+              value={draft.englishPrompt}
+              onChange={(e) => setDraft(prev => ({ ...prev, englishPrompt: e.target.value }))}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="text-gray-500">샷</span>
+              <select
+                className="w-full bg-gray-900 border border-gray-700 rounded px-1 py-1 mt-1 text-gray-200"
+                value={draft.shotType}
+                onChange={(e) => setDraft(prev => ({ ...prev, shotType: e.target.value as ShotType }))}
+              >
+                {(Object.keys(SHOT_TYPES) as ShotType[]).map(t => <option key={t} value={t}>{SHOT_TYPES[t].label}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-500">앵글</span>
+              <select
+                className="w-full bg-gray-900 border border-gray-700 rounded px-1 py-1 mt-1 text-gray-200"
+                value={draft.cameraAngle}
+                onChange={(e) => setDraft(prev => ({ ...prev, cameraAngle: e.target.value as CameraAngle }))}
+              >
+                {(Object.keys(CAMERA_ANGLES) as CameraAngle[]).map(a => <option key={a} value={a}>{CAMERA_ANGLES[a].label}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-500">장소</span>
+              <input
+                type="text"
+                className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 mt-1 text-gray-200 focus:outline-none focus:border-blue-500"
+                value={draft.location}
+                onChange={(e) => setDraft(prev => ({ ...prev, location: e.target.value }))}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-500">길이 (초)</span>
+              <div className="flex gap-1 mt-1">
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.1}
+                  className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500"
+                  value={draft.durationSec}
+                  onChange={(e) => setDraft(prev => ({ ...prev, durationSec: Math.max(0.5, Number(e.target.value) || 0) }))}
+                />
+                <button
+                  onClick={() => setDraft(prev => ({ ...prev, durationSec: estimateNarrationSeconds(prev.scriptSegment) }))}
+                  title="대사 길이로 다시 계산"
+                  className="px-1 text-gray-400 hover:text-gray-200"
+                >
+                  ↺
+                </button>
+              </div>
+            </label>
+            <label className="block col-span-2">
+              <span className="text-gray-500">내레이션 시작 (초, 비우면 앞 장면에 이어서)</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 mt-1 text-gray-200 focus:outline-none focus:border-blue-500"
+                value={draft.startSec ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, startSec: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value) || 0) }))}
+              />
+            </label>
+          </div>
+          <div>
+            <span className="text-gray-500">등장 캐릭터</span>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+              {characters.map(c => (
+                <label key={c.id} className="flex items-center gap-1 text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.characterIds.includes(c.id)}
+                    onChange={(e) => toggleDraftCharacter(c.id, e.target.checked)}
+                  />
+                  {c.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleSaveClick(false)}
+              disabled={!draft.englishPrompt.trim()}
+              className="flex-1 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded transition-colors disabled:opacity-50"
+            >
+              저장
+            </button>
+            <button
+              onClick={() => handleSaveClick(true)}
+              disabled={isBusy || !draft.englishPrompt.trim()}
+              title={isBusy ? '생성 또는 분석 중에는 재생성할 수 없습니다.' : undefined}
+              className="flex-1 py-1 bg-blue-700 hover:bg-blue-600 text-white rounded transition-colors disabled:opacity-50"
+            >
+              저장 후 재생성
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="py-1 px-2 text-gray-400 hover:text-gray-200 transition-colors"
+            >
+              취소
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-300 line-clamp-2" title={scene.scriptSegment}>
+            <span className="text-gray-500">대사:</span> {scene.scriptSegment}
+          </p>
+          {scene.caption && (
+            <p className="text-[10px] text-gray-400 italic line-clamp-2" title={scene.caption}>
+              <span className="text-gray-500 not-italic">자막:</span> {scene.caption}
+            </p>
+          )}
+          <p className="text-[10px] text-gray-500 line-clamp-2" title={scene.englishPrompt}>
+            <span className="text-gray-600">프롬프트:</span> {scene.englishPrompt}
+          </p>
+          <p className="text-[10px] text-gray-400">
+            {SHOT_TYPES[scene.shotType]?.label} · {CAMERA_ANGLES[scene.cameraAngle]?.label}
+            {scene.location && ` · ${scene.location}`} · {formatDuration(scene.durationSec)}
+            {scene.startSec !== undefined && ` · ▶ ${formatTimestamp(scene.startSec)}`}
+            {scene.narrationScore !== undefined && scene.narrationScore < NARRATION_MATCH_THRESHOLD && (
+              <span className="text-orange-400" title="가져온 내레이션에서 이 대사를 찾지 못해 앞 장면에 이어 배치했습니다"> · 타이밍 불일치</span>
+            )}
+          </p>
+          {sceneCharacters.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {sceneCharacters.map(c => (
+                <span key={c.id} className="bg-gray-700 text-gray-300 text-[10px] px-1.5 rounded">{c.name}</span>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={(e) => { e.stopPropagation(); setShowFinalPrompt(!showFinalPrompt); }}
+            className="text-[10px] text-gray-400 hover:text-gray-200"
+          >
+            {showFinalPrompt ? '최종 프롬프트 숨기기' : '최종 프롬프트 보기'}
+          </button>
+          {showFinalPrompt && (
+            <div className="text-[10px] bg-gray-900 border border-gray-700 rounded p-1.5 cursor-text" onClick={(e) => e.stopPropagation()}>
+              <pre className="whitespace-pre-wrap break-words text-gray-300 max-h-48 overflow-y-auto font-mono">{finalPrompt}</pre>
+              {viewedTake && viewedTake.prompt.trim() !== finalPrompt && (
+                <p className="mt-1 text-yellow-500" title={viewedTake.prompt}>현재 테이크는 다른 프롬프트로 생성되었습니다.</p>
+              )}
+            </div>
+          )}
+          {scene.originalPrompt !== undefined && (
+            <div className="text-[10px] bg-yellow-900/20 border border-yellow-800/50 rounded p-1.5" onClick={(e) => e.stopPropagation()}>
+              <div className="flex justify-between items-center">
+                <span className="text-yellow-400 font-bold" title={scene.safetyRewriteReason}>안전 정책으로 재작성됨</span>
+                {!isInFlight && (
+                  <button
+                    onClick={() => onSave(scene.id, { ...toSceneEdit(scene), englishPrompt: scene.originalPrompt! }, false)}
+                    className="text-gray-400 hover:text-gray-200"
+                  >
+                    원본 복원
+                  </button>
+                )}
+              </div>
+              <p className="text-gray-500 line-clamp-2" title={scene.originalPrompt}>
+                <span className="text-gray-600">원본:</span> {scene.originalPrompt}
+              </p>
+            </div>
+          )}
+          {!isInFlight && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px]">
+              <button onClick={handleEditClick} className="text-blue-400 hover:text-blue-300 transition-colors">
+                편집
+              </button>
+              {!isBusy && (
+                <>
+                  <button onClick={(e) => handleOperationClick(e, 'split')} className="text-gray-400 hover:text-gray-200 transition-colors">
+                    분할
+                  </button>
+                  <button onClick={(e) => handleOperationClick(e, 'mergeNext')} className="text-gray-400 hover:text-gray-200 transition-colors">
+                    다음과 병합
+                  </button>
+                  <button onClick={(e) => handleOperationClick(e, 'insertAfter')} className="text-gray-400 hover:text-gray-200 transition-colors">
+                    뒤에 삽입
+                  </button>
+                  <button onClick={(e) => handleOperationClick(e, 'delete')} className="text-red-400 hover:text-red-300 transition-colors">
+                    삭제
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
 
       {scene.status === SceneStatus.ERROR && (
         <div className="mt-2" onClick={(e) => e.stopPropagation()}>
-           <p className="text-[10px] text-red-400 mb-1 truncate">{scene.errorMsg}</p>
+           <p className="text-[10px] text-red-400 mb-1 truncate" title={scene.errorMsg}>
+             {scene.errorCode && (
+               <span className="bg-red-900 text-red-200 px-1 rounded mr-1">{ERROR_CODE_LABELS[scene.errorCode]}</span>
+             )}
+             {scene.errorMsg}
+           </p>
            <button 
             onClick={handleRetryClick}
             className="w-full py-1 bg-red-900/50 hover:bg-red-900 text-red-200 text-xs rounded transition-colors"
@@ -1,6 +1,7 @@
 import React from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 import { Scene, SceneStatus } from '../types';
+import { getSceneStats } from '../utils/sceneStats';
 
 interface StatsDashboardProps {
   scenes: Scene[];
@@ -16,12 +17,7 @@ const COLORS = {
 };
 
 export const StatsDashboard: React.FC<StatsDashboardProps> = ({ scenes }) => {
-  const stats = {
-    total: scenes.length,
-    success: scenes.filter(s => s.status === SceneStatus.SUCCESS).length,
-    error: scenes.filter(s => s.status === SceneStatus.ERROR).length,
-    pending: scenes.filter(s => [SceneStatus.IDLE, SceneStatus.PENDING, SceneStatus.GENERATING, SceneStatus.RETRYING].includes(s.status)).length,
-  };
+  const stats = getSceneStats(scenes);
 
   const data = [
     { name: '성공', value: stats.success, color: COLORS[SceneStatus.SUCCESS] },
@@ -0,0 +1,92 @@
+import React from 'react';
+import { StyleProfile } from '../types';
+
+interface StyleProfilesProps {
+  profiles: StyleProfile[];
+  selectedId: string; // Project's profile (already resolved against the library)
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onChange: (profiles: StyleProfile[]) => void;
+}
+
+export const StyleProfiles: React.FC<StyleProfilesProps> = ({ profiles, selectedId, disabled, onSelect, onChange }) => {
+  const selected = profiles.find(p => p.id === selectedId) ?? profiles[0];
+
+  const updateSelected = (patch: Partial<StyleProfile>) => {
+    onChange(profiles.map(p => p.id === selected.id ? { ...p, ...patch } : p));
+  };
+
+  // New profiles start as a copy of the current one so only the differences need typing
+  const handleDuplicate = () => {
+    const copy: StyleProfile = { ...selected, id: Math.random().toString(36).substring(2, 10), name: `${selected.name} 복사본` };
+    onChange([...profiles, copy]);
+    onSelect(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (profiles.length <= 1) return;
+    const remaining = profiles.filter(p => p.id !== selected.id);
+    onChange(remaining);
+    onSelect(remaining[0].id);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-lg flex flex-col gap-2 text-sm">
+      <h3 className="text-lg font-bold text-gray-200">스타일 프로필</h3>
+      <div className="flex gap-2">
+        <select
+          className="flex-1 bg-gray-900 border border-gray-700 rounded px-3 py-1.5 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+          value={selected.id}
+          disabled={disabled}
+          onChange={(e) => onSelect(e.target.value)}
+        >
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleDuplicate}
+          disabled={disabled}
+          className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-gray-300 disabled:opacity-50"
+        >
+          복제
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={disabled || profiles.length <= 1}
+          className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-red-300 disabled:opacity-50"
+        >
+          삭제
+        </button>
+      </div>
+      <input
+        type="text"
+        className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+        value={selected.name}
+        disabled={disabled}
+        onChange={(e) => updateSelected({ name: e.target.value })}
+      />
+      <label className="text-xs text-gray-400">
+        화풍 (VISUAL STYLE)
+        <textarea
+          className="w-full bg-gray-900 border border-gray-700 rounded p-2 mt-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500 resize-y"
+          rows={5}
+          value={selected.artStyle}
+          disabled={disabled}
+          onChange={(e) => updateSelected({ artStyle: e.target.value })}
+        />
+      </label>
+      <label className="text-xs text-gray-400">
+        금지 사항 (NEGATIVE CONSTRAINTS)
+        <textarea
+          className="w-full bg-gray-900 border border-gray-700 rounded p-2 mt-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500 resize-y"
+          rows={4}
+          value={selected.negativePrompt}
+          disabled={disabled}
+          onChange={(e) => updateSelected({ negativePrompt: e.target.value })}
+        />
+      </label>
+      <p className="text-[10px] text-gray-500">프로필은 이 브라우저에 저장되며 모든 프로젝트에서 사용할 수 있습니다.</p>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState, useRef } from 'react';
+import { TimelineOptions } from '../types';
+import { TIMELINE_FPS_OPTIONS } from '../constants';
+import { TimelineFormat } from '../utils/timelineExport';
+import { formatDuration } from '../utils/durationUtils';
+
+interface TimelineExportProps {
+  options: TimelineOptions;
+  sceneCount: number; // Every scene gets a slot in the timeline
+  imageCount: number; // Scenes with an image; the others are left black / as gaps
+  naturalDuration: number; // Sum of the scene durations (or end of the narration), in seconds
+  alignedCount: number; // Scenes timed from imported narration
+  disabled: boolean;
+  onChange: (patch: Partial<TimelineOptions>) => void;
+  onDownload: (format: TimelineFormat) => void;
+  onImportNarration: (file: File) => void;
+  onClearNarration: () => void;
+}
+
+const FORMAT_BUTTONS: { format: TimelineFormat; label: string; title: string }[] = [
+  { format: 'srt', label: 'SRT 자막', title: '장면별 자막 (모든 편집기/플레이어)' },
+  { format: 'edl', label: 'EDL', title: 'CMX3600 편집 목록 (Premiere, DaVinci)' },
+  { format: 'fcpxml', label: 'FCPXML', title: 'Final Cut Pro / DaVinci 타임라인' },
+];
+
+const inputClass = "bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+export const TimelineExport: React.FC<TimelineExportProps> = ({ options, sceneCount, imageCount, naturalDuration, alignedCount, disabled, onChange, onDownload, onImportNarration, onClearNarration }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const narrationInputRef = useRef<HTMLInputElement>(null);
+  const isAligned = alignedCount > 0;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-lg flex flex-col gap-2 text-sm">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-gray-200">타임라인 (SRT / EDL / FCPXML)</h3>
+        <span className="text-xs text-gray-400">{isOpen ? '접기' : '펼치기'}</span>
+      </button>
+      {isOpen && (
+        <div className="flex flex-col gap-2 text-xs text-gray-400">
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1" title="0이면 장면별 길이를 그대로 사용합니다. 내레이션에 맞춘 장면이 있으면 무시됩니다">
+              전체 길이
+              <input
+                type="number"
+                min={0}
+                step={1}
+                className={`w-16 ${inputClass}`}
+                value={options.totalRuntimeSec}
+                disabled={disabled || isAligned}
+                onChange={(e) => onChange({ totalRuntimeSec: Math.max(0, Number(e.target.value) || 0) })}
+              />
+              초
+            </label>
+            <label className="flex items-center gap-1">
+              FPS
+              <select
+                className={inputClass}
+                value={options.fps}
+                disabled={disabled}
+                onChange={(e) => onChange({ fps: Number(e.target.value) })}
+              >
+                {TIMELINE_FPS_OPTIONS.map(fps => <option key={fps} value={fps}>{fps}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              자막
+              <select
+                className={inputClass}
+                value={options.captions}
+                disabled={disabled}
+                onChange={(e) => onChange({ captions: e.target.value as TimelineOptions['captions'] })}
+              >
+                <option value="script">대사 원문</option>
+                <option value="caption">번역 자막</option>
+              </select>
+            </label>
+          </div>
+          <p className="text-[10px] text-gray-500">
+            장면 {sceneCount}개 (이미지 {imageCount}개) · {isAligned ? '내레이션 기준' : '장면 길이 합계'} {formatDuration(naturalDuration)}
+            {!isAligned && options.totalRuntimeSec > 0 && ` → ${formatDuration(options.totalRuntimeSec)}에 맞춰 조정`}.
+            {' '}EDL/FCPXML은 전체 다운로드(ZIP)의 images/ 파일을 가리키며, ZIP에도 함께 들어갑니다. 이미지가 없는 장면은 빈 구간으로 남습니다.
+          </p>
+          <div className="flex gap-2">
+            {FORMAT_BUTTONS.map(({ format, label, title }) => (
+              <button
+                key={format}
+                onClick={() => onDownload(format)}
+                disabled={disabled || sceneCount === 0}
+                title={title}
+                className="flex-1 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded transition-colors disabled:opacity-50"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 pt-2 border-t border-gray-700">
+            <input
+              ref={narrationInputRef}
+              type="file"
+              accept=".srt,.vtt,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = ''; // allow re-selecting the same file
+                if (file) onImportNarration(file);
+              }}
+            />
+            <button
+              onClick={() => narrationInputRef.current?.click()}
+              disabled={disabled}
+              title="녹음된 내레이션의 SRT/VTT 또는 타임코드가 있는 대본으로 장면별 시작 시간과 길이를 맞춥니다"
+              className="flex-1 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded transition-colors disabled:opacity-50"
+            >
+              내레이션 타이밍 가져오기
+            </button>
+            {isAligned && (
+              <button
+                onClick={onClearNarration}
+                disabled={disabled}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded transition-colors disabled:opacity-50"
+              >
+                정렬 해제 ({alignedCount})
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
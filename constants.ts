@@ -1,3 +1,5 @@
+import { ProjectSettings, ModelChainEntry, Character, StyleProfile, AnalysisOptions, AnalysisGranularity, ShotType, CameraAngle, ScriptLanguage, AnimaticOptions, AnimaticResolution, TimelineOptions, ContactSheetOptions, PageOrientation, ImageExportOptions, ExportResolution, ExportImageFormat } from './types';
+
 
 export const IFMAN_CHARACTER_PROMPT = `
 SUBJECT: 'Ifman' (A stylized mascot character).
@@ -25,7 +27,6 @@ COPYRIGHT SAFETY:
 - Do NOT depict famous real-world copyrighted characters.
 TEXT RENDERING RULES:
 - AVOID text in the background whenever possible (Clean visual).
-- If text is absolutely necessary (signs, screens), use ENGLISH.
 `;
 
 export const SAFETY_PROMPT = `
@@ -33,13 +34,272 @@ Negative Constraints:
 - NO photorealism, NO 3D render.
 - NO copyrighted logos (Apple, Nike, etc).
 - NO text on faces (EXCEPT for Ifman).
-- NO Korean text (Use English if text is required).
 - NO semi-transparent hat (Hat must be solid black).
 `;
 
+// Built-in style profiles. Users edit/extend them in the UI; the library is kept in localStorage.
+export const DEFAULT_STYLE_PROFILE_ID = "vector-mascot";
+export const STYLE_PROFILES_STORAGE_KEY = "ifman-storyboard-style-profiles";
+export const DEFAULT_STYLE_PROFILES: StyleProfile[] = [
+  { id: DEFAULT_STYLE_PROFILE_ID, name: "벡터 마스코트", artStyle: ART_STYLE_PROMPT.trim(), negativePrompt: SAFETY_PROMPT.trim() },
+  {
+    id: "watercolor-explainer",
+    name: "수채화 설명",
+    artStyle: `
+ART STYLE: Soft hand-painted watercolor illustration for an educational explainer.
+LINES: Loose ink outlines, slightly uneven.
+COLORS: Muted pastel washes on textured white paper, gentle color bleeding.
+COPYRIGHT SAFETY:
+- Use GENERIC devices (phones, cars) without brand logos.
+- Do NOT depict famous real-world copyrighted characters.
+TEXT RENDERING RULES:
+- AVOID text in the background whenever possible (Clean visual).
+`.trim(),
+    negativePrompt: `
+Negative Constraints:
+- NO photorealism, NO 3D render, NO vector gradients.
+- NO copyrighted logos (Apple, Nike, etc).
+- NO text on faces (EXCEPT for Ifman).
+`.trim(),
+  },
+  {
+    id: "dark-documentary",
+    name: "다크 다큐멘터리",
+    artStyle: `
+ART STYLE: Moody 2D digital painting, cinematic documentary look.
+LIGHTING: Low-key lighting, strong shadows, a single warm light source.
+COLORS: Desaturated teal and charcoal palette with sparse amber accents.
+COPYRIGHT SAFETY:
+- Use GENERIC devices (phones, cars) without brand logos.
+- Do NOT depict famous real-world copyrighted characters.
+TEXT RENDERING RULES:
+- AVOID text in the background whenever possible (Clean visual).
+`.trim(),
+    negativePrompt: `
+Negative Constraints:
+- NO photorealism, NO bright cheerful colors.
+- NO gore or graphic violence.
+- NO copyrighted logos (Apple, Nike, etc).
+- NO text on faces (EXCEPT for Ifman).
+`.trim(),
+  },
+];
+
+// Shot metadata: Korean UI label + wording used in the image prompt
+export const SHOT_TYPES: Record<ShotType, { label: string; prompt: string }> = {
+  'extreme-wide': { label: '익스트림 와이드', prompt: 'extreme wide establishing shot' },
+  'wide': { label: '와이드', prompt: 'wide shot' },
+  'medium': { label: '미디엄', prompt: 'medium shot' },
+  'close-up': { label: '클로즈업', prompt: 'close-up shot' },
+  'extreme-close-up': { label: '익스트림 클로즈업', prompt: 'extreme close-up' },
+  'insert': { label: '인서트', prompt: 'insert shot of a single detail or object' },
+  'over-the-shoulder': { label: '오버 더 숄더', prompt: 'over-the-shoulder shot' },
+};
+
+export const CAMERA_ANGLES: Record<CameraAngle, { label: string; prompt: string }> = {
+  'eye-level': { label: '아이 레벨', prompt: 'eye-level angle' },
+  'high': { label: '하이 앵글', prompt: 'high angle looking down' },
+  'low': { label: '로우 앵글', prompt: 'low angle looking up' },
+  'birds-eye': { label: '버드아이 뷰', prompt: "top-down bird's-eye view" },
+  'dutch': { label: '더치 앵글', prompt: 'tilted dutch angle' },
+};
+
+// Script languages: Korean UI label, English name used in prompts, and narration speed
+// (letters per second, no spaces/punctuation) used to estimate how long a scene stays on screen
+export const SCRIPT_LANGUAGES: Record<ScriptLanguage, { label: string; name: string; charsPerSecond: number }> = {
+  ko: { label: '한국어', name: 'Korean', charsPerSecond: 6 },
+  en: { label: '영어', name: 'English', charsPerSecond: 13 },
+  ja: { label: '일본어', name: 'Japanese', charsPerSecond: 7 },
+};
+export const DEFAULT_SCRIPT_LANGUAGE: ScriptLanguage = 'ko'; // Used when detection finds no letters
+export const MIN_SCENE_DURATION_SEC = 1.5; // Insert/reaction shots without text still need screen time
+
+// Appended to the negative constraints when a failed scene is retried
 export const RETRY_MODIFIER = ", simplified, vector icon, minimal";
 
-// Tier 1 User strategy: Increased to 25 seconds (approx 2 RPM) to be extremely safe for Free Tier image generation
-export const RATE_LIMIT_DELAY_MS = 25000;
+// Image prompt layout (syntax and variables: utils/promptTemplate.ts). Editable per project.
+export const DEFAULT_PROMPT_TEMPLATE = `{{character}}
+SCENE ACTION: {{scene.englishPrompt}}
+CAMERA: {{scene.shotType}}, {{scene.cameraAngle}}
+{{#if hasLocation}}SETTING: {{scene.location}}
+{{/if}}ORIGINAL CONTEXT: {{scene.scriptSegment}}
+TEXT IN IMAGE: {{textRule}}
+VISUAL STYLE: {{style}}
+NEGATIVE CONSTRAINTS: {{negative}}{{#if isRetry}}${RETRY_MODIFIER}{{/if}}`;
+
+// Character library. Ifman is the built-in first entry; the QA checklist below is tied to its id.
+export const IFMAN_CHARACTER_ID = "ifman";
+export const DEFAULT_CHARACTERS: Character[] = [
+  { id: IFMAN_CHARACTER_ID, name: "Ifman", description: IFMAN_CHARACTER_PROMPT.trim(), referenceImages: [] },
+];
+
+// Character reference images (downscaled on upload, sent with every scene the character is in)
+export const REFERENCE_IMAGE_MAX_SIZE = 768;
+export const MAX_REFERENCE_IMAGES = 4;
+
+// Vision QA checklist, derived from IFMAN_CHARACTER_PROMPT and SAFETY_PROMPT above.
+// The 'art_style' and 'text_language' checks are asked against the project's style profile and text rule.
+// `when` limits a check to scenes with/without Ifman (IFMAN_CHARACTER_ID in characterIds).
+export const QA_CHECKS: { id: string; label: string; question: string; when: 'ifman' | 'noIfman' | 'always' }[] = [
+  { id: 'ifman_present', label: '이프맨 등장', question: "The 'Ifman' mascot (perfectly round WHITE head on a minimalist white stick-figure body) is visible.", when: 'ifman' },
+  { id: 'left_eye_i', label: '왼쪽 눈 I', question: "Ifman's LEFT eye is drawn as a black capital letter 'I'.", when: 'ifman' },
+  { id: 'right_eye_f', label: '오른쪽 눈 F', question: "Ifman's RIGHT eye is drawn as a black capital letter 'F'.", when: 'ifman' },
+  { id: 'red_triangle_mouth', label: '빨간 역삼각형 입', question: "Ifman's mouth is a small RED INVERTED TRIANGLE centered below the letters.", when: 'ifman' },
+  { id: 'solid_black_gat', label: '불투명 검은 갓', question: "Ifman wears a traditional Korean 'Gat' hat that is SOLID OPAQUE BLACK (not semi-transparent).", when: 'ifman' },
+  { id: 'no_ifman', label: '이프맨 미등장', question: "The 'Ifman' mascot (round white head with letters for eyes and a black Korean hat) does NOT appear.", when: 'noIfman' },
+  { id: 'no_face_text', label: '얼굴에 글자 없음', question: "No letters or text are drawn on anyone's face.", when: 'noIfman' },
+  { id: 'text_language', label: '글자 언어 규칙', question: "Any text in the image follows the TEXT RULE below.", when: 'always' },
+  { id: 'art_style', label: '화풍 일치', question: "The image matches the ART STYLE described below.", when: 'always' },
+  { id: 'no_logos', label: '브랜드 로고 없음', question: "No copyrighted brand logos (Apple, Nike, etc.) are visible.", when: 'always' },
+];
+
+// Free Tier strategy: approx 2 RPM per model (one request every ~25-30s) to be extremely safe for image generation.
+// Paid tiers can raise this (and the worker count) in the engine settings.
+export const DEFAULT_REQUESTS_PER_MINUTE = 2;
+// Text calls (script analysis, safety rewrites, QA) have their own limiter key and budget,
+// so they never queue behind image generation. Gemini 2.5 Flash free tier allows about 10 RPM.
+export const TEXT_LIMITER_KEY = 'text:gemini-2.5-flash';
+export const DEFAULT_TEXT_REQUESTS_PER_MINUTE = 10;
+export const DEFAULT_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 8;
 export const MAX_SCENES = 300;
+// Script analysis is split into chunks of about this many characters (cut at paragraph boundaries)
+export const ANALYSIS_CHUNK_CHARS = 2500;
+export const ANALYSIS_CONTEXT_CHARS = 400; // Tail of the previous chunk passed along for continuity
+
+export const ANALYSIS_GRANULARITY_LABELS: Record<AnalysisGranularity, string> = {
+  paragraph: '문단 단위',
+  sentence: '문장 단위',
+  clause: '절 단위 (최대 분할)',
+};
+
+// Defaults reproduce the original "extreme granularity" behaviour
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  language: 'auto',
+  captionLanguage: 'none',
+  granularity: 'clause',
+  targetSceneCount: 0,
+  maxSceneCount: MAX_SCENES,
+  insertShots: true,
+  reactionShots: true,
+};
 export const MAX_RETRIES = 5;
+
+// Debounce for IndexedDB autosave (scene updates arrive in bursts during generation)
+export const AUTOSAVE_DEBOUNCE_MS = 1000;
+export const PROJECT_SNAPSHOT_VERSION = 1;
+
+// Re-importable project bundle (ZIP with project.json manifest + images/)
+export const PROJECT_BUNDLE_FORMAT = "ifman-storyboard-bundle";
+export const PROJECT_BUNDLE_VERSION = 2;
+
+// Image providers (see services/imageProviders.ts)
+export const GOOGLE_PROVIDER_ID = "google";
+export const OPENAI_IMAGE_SIZE = "1792x1024"; // Closest 16:9-ish size most OpenAI-compatible servers accept
+export const SD_IMAGE_WIDTH = 1344;
+export const SD_IMAGE_HEIGHT = 768;
+
+// Google image models, in default fallback order
+export const IMAGE_MODEL_LABELS: Record<string, string> = {
+  'gemini-2.5-flash-image': 'Gemini 2.5 Flash Image',
+  'imagen-3.0-generate-001': 'Imagen 3',
+  'gemini-2.0-flash-exp': 'Gemini 2.0 Flash Exp',
+};
+
+export const DEFAULT_MODEL_CHAIN: ModelChainEntry[] = Object.keys(IMAGE_MODEL_LABELS).map(model => ({
+  model,
+  enabled: true,
+  retries: MAX_RETRIES,
+}));
+
+// Animatic (WebM) export, rendered in real time through canvas + MediaRecorder
+export const ANIMATIC_RESOLUTIONS: Record<AnimaticResolution, { label: string; width: number; height: number }> = {
+  '720p': { label: '1280×720', width: 1280, height: 720 },
+  '1080p': { label: '1920×1080', width: 1920, height: 1080 },
+};
+export const ANIMATIC_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+export const ANIMATIC_BITRATE = 8_000_000;
+export const KEN_BURNS_ZOOM = 0.12; // Extra scale reached over one scene
+export const DEFAULT_ANIMATIC_OPTIONS: AnimaticOptions = {
+  resolution: '1080p',
+  fps: 30,
+  kenBurns: true,
+  crossfadeSec: 0.5,
+  captions: 'none',
+};
+
+// Timed exports for editors; media paths point at the images/ folder of the image ZIP
+export const TIMELINE_FPS_OPTIONS = [24, 25, 30, 60];
+export const TIMELINE_FRAME_SIZE = { width: 1920, height: 1080 };
+export const DEFAULT_TIMELINE_OPTIONS: TimelineOptions = {
+  fps: 30,
+  totalRuntimeSec: 0,
+  captions: 'script',
+};
+
+// Exported images; target sizes letterbox the image instead of cropping it
+export const EXPORT_RESOLUTIONS: Record<ExportResolution, { label: string; width: number; height: number }> = {
+  original: { label: '원본 크기', width: 0, height: 0 },
+  '1080p': { label: '1920×1080 (가로)', width: 1920, height: 1080 },
+  vertical: { label: '1080×1920 (세로)', width: 1080, height: 1920 },
+  '4k': { label: '3840×2160 (4K 업스케일)', width: 3840, height: 2160 },
+};
+export const EXPORT_IMAGE_FORMATS: Record<ExportImageFormat, { label: string; mimeType: string }> = {
+  original: { label: '원본 형식', mimeType: '' },
+  png: { label: 'PNG', mimeType: 'image/png' },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg' },
+  webp: { label: 'WebP', mimeType: 'image/webp' },
+};
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  resolution: 'original',
+  format: 'original',
+  quality: 0.92,
+  captions: 'none',
+};
+
+// Contact sheet (printable storyboard); the PDF is built from pages drawn on a canvas
+export const CONTACT_SHEET_PAGE_MM: Record<PageOrientation, { width: number; height: number }> = {
+  landscape: { width: 297, height: 210 },
+  portrait: { width: 210, height: 297 },
+};
+export const CONTACT_SHEET_GRID_RANGE = [1, 2, 3, 4]; // Selectable columns / rows
+export const CONTACT_SHEET_PDF_DPI = 150;
+export const CONTACT_SHEET_JPEG_QUALITY = 0.85;
+export const DEFAULT_CONTACT_SHEET_OPTIONS: ContactSheetOptions = {
+  columns: 3,
+  rows: 2,
+  orientation: 'landscape',
+  showPrompt: false,
+};
+
+// Narration import (SRT/transcript aligned to scenes)
+export const NARRATION_MATCH_THRESHOLD = 0.5; // Dice similarity below this counts as a mismatch
+export const NARRATION_SEARCH_WINDOW = 300; // Letters searched ahead of the previous match
+
+// Burned-in subtitles (animatic and exported images)
+export const CAPTION_FONT_FAMILY = "'Pretendard', 'Noto Sans KR', 'Noto Sans JP', sans-serif";
+export const CAPTION_FONT_RATIO = 0.045; // Font size relative to the frame's short side
+export const CAPTION_MAX_LINES = 3;
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  title: "이프맨 스토리보드",
+  styleProfileId: DEFAULT_STYLE_PROFILE_ID,
+  promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+  analysis: DEFAULT_ANALYSIS_OPTIONS,
+  imageTextLanguage: 'en',
+  animatic: DEFAULT_ANIMATIC_OPTIONS,
+  timeline: DEFAULT_TIMELINE_OPTIONS,
+  contactSheet: DEFAULT_CONTACT_SHEET_OPTIONS,
+  imageExport: DEFAULT_IMAGE_EXPORT_OPTIONS,
+  imageProviderId: GOOGLE_PROVIDER_ID,
+  endpointUrl: "",
+  endpointModel: "",
+  modelChain: DEFAULT_MODEL_CHAIN,
+  requestsPerMinute: DEFAULT_REQUESTS_PER_MINUTE,
+  textRequestsPerMinute: DEFAULT_TEXT_REQUESTS_PER_MINUTE,
+  concurrency: DEFAULT_CONCURRENCY,
+  autoSafetyRewrite: true,
+  qaEnabled: false,
+  qaThreshold: 0.8,
+  qaMaxRegenerations: 2,
+};
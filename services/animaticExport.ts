@@ -0,0 +1,151 @@
+import { Scene, AnimaticOptions } from "../types";
+import { ANIMATIC_RESOLUTIONS, ANIMATIC_MIME_TYPES, ANIMATIC_BITRATE, KEN_BURNS_ZOOM } from "../constants";
+import { getSelectedTake } from "../utils/takeUtils";
+import { loadImage } from "../utils/imageUtils";
+import { getCaptionText, drawCaption } from "../utils/captionUtils";
+import { layoutScenes } from "../utils/timelineExport";
+
+interface TimelineEntry {
+  image: HTMLImageElement;
+  start: number; // Seconds from the beginning of the video
+  duration: number;
+  caption: string;
+}
+
+// Pan directions cycled through per scene so consecutive shots don't drift the same way
+const PAN_DIRECTIONS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+// Length of the animatic in seconds; crossfades overlap the end of each scene, so they add nothing
+export const getAnimaticDuration = (scenes: Scene[]): number =>
+  layoutScenes(scenes).at(-1)?.end ?? 0;
+
+// Same timing as the timeline exports, but without gaps: a still holds until the next one starts,
+// and the first one covers any silence before the narration begins
+const buildTimeline = async (scenes: Scene[], options: AnimaticOptions): Promise<TimelineEntry[]> => {
+  const slots = layoutScenes(scenes.filter(s => getSelectedTake(s)));
+  return Promise.all(slots.map(async ({ scene, start, end }, i) => {
+    const from = i === 0 ? 0 : start;
+    const to = i + 1 < slots.length ? slots[i + 1].start : end;
+    return {
+      image: await loadImage(getSelectedTake(scene)!.imageUrl),
+      start: from,
+      duration: to - from,
+      caption: getCaptionText(scene, options.captions),
+    };
+  }));
+};
+
+// Draws an image covering the frame; `progress` (0..1) drives the Ken Burns zoom and pan
+const drawStill = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, index: number, progress: number, kenBurns: boolean) => {
+  const { width, height } = ctx.canvas;
+  let zoom = 1;
+  let panX = 0;
+  let panY = 0;
+  if (kenBurns) {
+    // Even scenes zoom in, odd scenes zoom out
+    zoom = 1 + KEN_BURNS_ZOOM * (index % 2 === 0 ? progress : 1 - progress);
+    const [dx, dy] = PAN_DIRECTIONS[index % PAN_DIRECTIONS.length];
+    panX = dx * (progress - 0.5);
+    panY = dy * (progress - 0.5);
+  }
+  const scale = Math.max(width / image.width, height / image.height) * zoom;
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  // Pan within the part of the image that overflows the frame
+  const x = (width - drawWidth) / 2 + panX * (drawWidth - width);
+  const y = (height - drawHeight) / 2 + panY * (drawHeight - height);
+  ctx.drawImage(image, x, y, drawWidth, drawHeight);
+};
+
+const drawFrame = (ctx: CanvasRenderingContext2D, timeline: TimelineEntry[], time: number, options: AnimaticOptions) => {
+  const { width, height } = ctx.canvas;
+  const found = timeline.findIndex(e => time < e.start + e.duration);
+  const currentIndex = found >= 0 ? found : timeline.length - 1; // The very last frame stays on the last scene
+  const current = timeline[currentIndex];
+  const next = timeline[currentIndex + 1];
+  const local = Math.min(time - current.start, current.duration);
+
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  drawStill(ctx, current.image, currentIndex, local / current.duration, options.kenBurns);
+
+  // Crossfade into the next scene during the last moments of this one
+  let caption = current.caption;
+  const fade = next ? Math.min(options.crossfadeSec, current.duration / 2, next.duration / 2) : 0;
+  if (next && fade > 0 && local > current.duration - fade) {
+    const alpha = (local - (current.duration - fade)) / fade;
+    ctx.globalAlpha = alpha;
+    drawStill(ctx, next.image, currentIndex + 1, 0, options.kenBurns);
+    ctx.globalAlpha = 1;
+    if (alpha > 0.5) caption = next.caption;
+  }
+  drawCaption(ctx, caption, width, height);
+};
+
+/**
+ * Renders the scenes' selected takes, in order, to a WebM video in the browser.
+ * Recording runs in real time (the export takes as long as the video); `signal` cancels it.
+ */
+export const renderAnimatic = async (
+  scenes: Scene[],
+  options: AnimaticOptions,
+  onProgress: (progress: number) => void,
+  signal: AbortSignal
+): Promise<Blob> => {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error("이 브라우저는 영상 녹화(MediaRecorder)를 지원하지 않습니다.");
+  }
+  const mimeType = ANIMATIC_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("이 브라우저는 WebM 녹화를 지원하지 않습니다.");
+
+  const timeline = await buildTimeline(scenes, options);
+  if (timeline.length === 0) throw new Error("내보낼 이미지가 없습니다.");
+  const total = timeline[timeline.length - 1].start + timeline[timeline.length - 1].duration;
+
+  const { width, height } = ANIMATIC_RESOLUTIONS[options.resolution];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("캔버스를 사용할 수 없습니다.");
+
+  const stream = canvas.captureStream(options.fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: ANIMATIC_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  drawFrame(ctx, timeline, 0, options);
+  recorder.start(1000);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const startedAt = performance.now();
+      const onAbort = () => {
+        clearInterval(timer);
+        reject(new DOMException("애니매틱 내보내기가 취소되었습니다.", 'AbortError'));
+      };
+      // Timer instead of requestAnimationFrame: keeps drawing (slower) when the tab is in the background
+      const timer = setInterval(() => {
+        const elapsed = (performance.now() - startedAt) / 1000;
+        drawFrame(ctx, timeline, Math.min(elapsed, total), options);
+        onProgress(Math.min(1, elapsed / total));
+        if (elapsed >= total) {
+          clearInterval(timer);
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      }, 1000 / options.fps);
+      if (signal.aborted) onAbort();
+      else signal.addEventListener('abort', onAbort, { once: true });
+    });
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+    await stopped;
+  }
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
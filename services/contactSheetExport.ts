@@ -0,0 +1,288 @@
+import { Scene, ContactSheetOptions } from "../types";
+import { CONTACT_SHEET_PAGE_MM, CONTACT_SHEET_PDF_DPI, CONTACT_SHEET_JPEG_QUALITY, CAPTION_FONT_FAMILY, SHOT_TYPES, CAMERA_ANGLES } from "../constants";
+import { getSelectedTake } from "../utils/takeUtils";
+import { loadImage } from "../utils/imageUtils";
+import { wrapLines } from "../utils/captionUtils";
+import { formatDuration, formatTimestamp } from "../utils/durationUtils";
+import { SceneStats } from "../utils/sceneStats";
+import { buildImagePdf, PdfPageImage } from "../utils/pdfWriter";
+
+// Project information printed on the first page
+export interface ContactSheetCover {
+  title: string;
+  details: string[]; // One line each, e.g. "스타일: 시네마틱"
+  stats: SceneStats;
+}
+
+// Page layout in millimetres, shared by the HTML and the PDF so both print the same sheet
+const MARGIN_MM = 10;
+const HEADER_MM = 7;
+const GAP_MM = 4;
+const FRAME_PADDING_MM = 2;
+const SCRIPT_LINES = 3;
+const PROMPT_LINES = 2;
+
+const STAT_ITEMS: { key: keyof SceneStats; label: string; color: string }[] = [
+  { key: 'total', label: '전체', color: '#111827' },
+  { key: 'success', label: '성공', color: '#10B981' },
+  { key: 'error', label: '실패', color: '#EF4444' },
+  { key: 'pending', label: '대기', color: '#6B7280' },
+];
+
+export const getContactSheetPageCount = (sceneCount: number, { columns, rows }: ContactSheetOptions): number =>
+  Math.ceil(sceneCount / (columns * rows));
+
+// "미디엄 · 정면 · 카페 · 4.5초 · ▶ 1:05.3"
+const describeFrameShot = (scene: Scene): string =>
+  [
+    SHOT_TYPES[scene.shotType]?.label,
+    CAMERA_ANGLES[scene.cameraAngle]?.label,
+    scene.location,
+    formatDuration(scene.durationSec),
+    scene.startSec !== undefined ? `▶ ${formatTimestamp(scene.startSec)}` : '',
+  ].filter(Boolean).join(' · ');
+
+const paginate = (scenes: Scene[], { columns, rows }: ContactSheetOptions): Scene[][] => {
+  const perPage = columns * rows;
+  return Array.from({ length: Math.ceil(scenes.length / perPage) }, (_, i) => scenes.slice(i * perPage, (i + 1) * perPage));
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlFrame = (scene: Scene, showPrompt: boolean): string => {
+  const take = getSelectedTake(scene);
+  return `<div class="frame">
+  <div class="frame-image">${take ? `<img src="${take.imageUrl}" alt="장면 ${scene.id}">` : '<span class="placeholder">이미지 없음</span>'}</div>
+  <div class="meta"><b>#${scene.id}</b> ${escapeHtml(describeFrameShot(scene))}</div>
+  <p class="script">${escapeHtml(scene.scriptSegment)}</p>
+  ${showPrompt ? `<p class="prompt">${escapeHtml(scene.englishPrompt)}</p>` : ''}
+</div>`;
+};
+
+/**
+ * Builds a self-contained, print-ready HTML storyboard (images embedded as data URLs).
+ * Printing it from the browser gives one A4 sheet per page.
+ */
+export const buildContactSheetHtml = (scenes: Scene[], options: ContactSheetOptions, cover: ContactSheetCover): string => {
+  const page = CONTACT_SHEET_PAGE_MM[options.orientation];
+  const pages = paginate(scenes, options);
+  const title = escapeHtml(cover.title);
+  const coverHtml = `<section class="page cover">
+  <h1>${title}</h1>
+  ${cover.details.map(line => `<p class="detail">${escapeHtml(line)}</p>`).join('\n  ')}
+  <div class="stats">
+    ${STAT_ITEMS.map(item => `<div class="stat"><div class="value" style="color:${item.color}">${cover.stats[item.key]}</div><div class="label">${item.label}</div></div>`).join('\n    ')}
+  </div>
+</section>`;
+  const sheets = pages.map((pageScenes, i) => `<section class="page">
+  <header class="page-header"><span>${title}</span><span>${i + 1} / ${pages.length}</span></header>
+  <div class="grid">
+${pageScenes.map(scene => htmlFrame(scene, options.showPrompt)).join('\n')}
+  </div>
+</section>`);
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="UTF-8">
+<title>${title}</title>
+<style>
+  @page { size: A4 ${options.orientation}; margin: ${MARGIN_MM}mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: ${CAPTION_FONT_FAMILY}; color: #111827; }
+  .page { width: ${page.width - MARGIN_MM * 2}mm; height: ${page.height - MARGIN_MM * 2}mm; display: flex; flex-direction: column; overflow: hidden; break-after: page; }
+  .page:last-child { break-after: auto; }
+  .cover { align-items: center; justify-content: center; text-align: center; gap: 3mm; }
+  .cover h1 { font-size: 28pt; margin: 0 0 4mm; }
+  .detail { margin: 0; font-size: 11pt; color: #4B5563; }
+  .stats { display: flex; gap: 10mm; margin-top: 10mm; }
+  .stat .value { font-size: 26pt; font-weight: bold; }
+  .stat .label { font-size: 10pt; color: #6B7280; }
+  .page-header { height: ${HEADER_MM - 2}mm; margin-bottom: 2mm; display: flex; justify-content: space-between; align-items: flex-end; font-size: 8pt; color: #6B7280; border-bottom: 0.3mm solid #D1D5DB; }
+  .grid { flex: 1; min-height: 0; display: grid; grid-template-columns: repeat(${options.columns}, minmax(0, 1fr)); grid-template-rows: repeat(${options.rows}, minmax(0, 1fr)); gap: ${GAP_MM}mm; }
+  .frame { display: flex; flex-direction: column; min-height: 0; padding: ${FRAME_PADDING_MM}mm; border: 0.3mm solid #D1D5DB; }
+  .frame-image { flex: 1; min-height: 0; display: flex; align-items: center; justify-content: center; background: #F3F4F6; }
+  .frame-image img { max-width: 100%; max-height: 100%; object-fit: contain; }
+  .placeholder { font-size: 9pt; color: #9CA3AF; }
+  .meta { margin-top: 1.5mm; font-size: 8pt; color: #4B5563; }
+  .meta b { color: #111827; margin-right: 1.5mm; }
+  .script, .prompt { margin: 1mm 0 0; overflow: hidden; display: -webkit-box; -webkit-box-orient: vertical; }
+  .script { font-size: 9pt; -webkit-line-clamp: ${SCRIPT_LINES}; }
+  .prompt { font-size: 7pt; color: #6B7280; -webkit-line-clamp: ${PROMPT_LINES}; }
+  @media screen {
+    body { background: #6B7280; padding: 10mm 0; }
+    .page { width: ${page.width}mm; height: ${page.height}mm; padding: ${MARGIN_MM}mm; margin: 0 auto 10mm; background: #ffffff; box-shadow: 0 2mm 6mm rgba(0, 0, 0, 0.3); }
+  }
+</style>
+</head>
+<body>
+${[coverHtml, ...sheets].join('\n')}
+</body>
+</html>
+`;
+};
+
+// --- PDF ---
+
+const fillLines = (ctx: CanvasRenderingContext2D, lines: string[], x: number, y: number, lineHeight: number) =>
+  lines.forEach((line, i) => ctx.fillText(line, x, y + lineHeight * i));
+
+const drawCover = (ctx: CanvasRenderingContext2D, cover: ContactSheetCover, mm: number) => {
+  const { width, height } = ctx.canvas;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  let y = height * 0.3;
+  ctx.fillStyle = '#111827';
+  ctx.font = `bold ${10 * mm}px ${CAPTION_FONT_FAMILY}`;
+  const titleLines = wrapLines(ctx, cover.title, width - MARGIN_MM * 4 * mm, 2);
+  fillLines(ctx, titleLines, width / 2, y, 12 * mm);
+  y += titleLines.length * 12 * mm + 4 * mm;
+
+  ctx.fillStyle = '#4B5563';
+  ctx.font = `${4 * mm}px ${CAPTION_FONT_FAMILY}`;
+  fillLines(ctx, cover.details, width / 2, y, 6 * mm);
+  y += cover.details.length * 6 * mm + 10 * mm;
+
+  const step = 30 * mm;
+  STAT_ITEMS.forEach((item, i) => {
+    const x = width / 2 + (i - (STAT_ITEMS.length - 1) / 2) * step;
+    ctx.fillStyle = item.color;
+    ctx.font = `bold ${9 * mm}px ${CAPTION_FONT_FAMILY}`;
+    ctx.fillText(String(cover.stats[item.key]), x, y);
+    ctx.fillStyle = '#6B7280';
+    ctx.font = `${3.5 * mm}px ${CAPTION_FONT_FAMILY}`;
+    ctx.fillText(item.label, x, y + 11 * mm);
+  });
+};
+
+const drawFrame = (ctx: CanvasRenderingContext2D, scene: Scene, image: HTMLImageElement | null, box: { x: number; y: number; width: number; height: number }, showPrompt: boolean, mm: number) => {
+  const metaSize = 2.8 * mm;
+  const scriptSize = 3.2 * mm;
+  const promptSize = 2.5 * mm;
+  const padding = FRAME_PADDING_MM * mm;
+  const x = box.x + padding;
+  const width = box.width - padding * 2;
+  const textHeight = 1.5 * mm + metaSize * 1.4 + scriptSize * 1.35 * SCRIPT_LINES + (showPrompt ? 1 * mm + promptSize * 1.35 * PROMPT_LINES : 0);
+  const imageHeight = Math.max(0, box.height - padding * 2 - textHeight);
+
+  ctx.strokeStyle = '#D1D5DB';
+  ctx.lineWidth = 0.3 * mm;
+  ctx.strokeRect(box.x, box.y, box.width, box.height);
+  ctx.fillStyle = '#F3F4F6';
+  ctx.fillRect(x, box.y + padding, width, imageHeight);
+  if (image) {
+    const scale = Math.min(width / image.width, imageHeight / image.height);
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+    ctx.drawImage(image, x + (width - drawWidth) / 2, box.y + padding + (imageHeight - drawHeight) / 2, drawWidth, drawHeight);
+  } else {
+    ctx.fillStyle = '#9CA3AF';
+    ctx.font = `${scriptSize}px ${CAPTION_FONT_FAMILY}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('이미지 없음', x + width / 2, box.y + padding + imageHeight / 2);
+  }
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  let y = box.y + padding + imageHeight + 1.5 * mm;
+  ctx.fillStyle = '#111827';
+  ctx.font = `bold ${metaSize}px ${CAPTION_FONT_FAMILY}`;
+  const number = `#${scene.id}`;
+  ctx.fillText(number, x, y);
+  const numberWidth = ctx.measureText(number).width + 1.5 * mm;
+  ctx.fillStyle = '#4B5563';
+  ctx.font = `${metaSize}px ${CAPTION_FONT_FAMILY}`;
+  fillLines(ctx, wrapLines(ctx, describeFrameShot(scene), width - numberWidth, 1), x + numberWidth, y, 0);
+  y += metaSize * 1.4;
+
+  ctx.fillStyle = '#111827';
+  ctx.font = `${scriptSize}px ${CAPTION_FONT_FAMILY}`;
+  fillLines(ctx, wrapLines(ctx, scene.scriptSegment, width, SCRIPT_LINES), x, y, scriptSize * 1.35);
+  y += scriptSize * 1.35 * SCRIPT_LINES + 1 * mm;
+
+  if (showPrompt) {
+    ctx.fillStyle = '#6B7280';
+    ctx.font = `${promptSize}px ${CAPTION_FONT_FAMILY}`;
+    fillLines(ctx, wrapLines(ctx, scene.englishPrompt, width, PROMPT_LINES), x, y, promptSize * 1.35);
+  }
+};
+
+const drawSheet = async (ctx: CanvasRenderingContext2D, scenes: Scene[], options: ContactSheetOptions, header: { title: string; page: string }, mm: number) => {
+  const { width, height } = ctx.canvas;
+  const margin = MARGIN_MM * mm;
+  const gap = GAP_MM * mm;
+
+  ctx.fillStyle = '#6B7280';
+  ctx.font = `${2.8 * mm}px ${CAPTION_FONT_FAMILY}`;
+  ctx.textBaseline = 'bottom';
+  ctx.textAlign = 'left';
+  ctx.fillText(header.title, margin, margin + (HEADER_MM - 2) * mm);
+  ctx.textAlign = 'right';
+  ctx.fillText(header.page, width - margin, margin + (HEADER_MM - 2) * mm);
+  ctx.fillStyle = '#D1D5DB';
+  ctx.fillRect(margin, margin + (HEADER_MM - 2) * mm, width - margin * 2, 0.3 * mm);
+
+  const top = margin + HEADER_MM * mm;
+  const cellWidth = (width - margin * 2 - gap * (options.columns - 1)) / options.columns;
+  const cellHeight = (height - top - margin - gap * (options.rows - 1)) / options.rows;
+  for (const [i, scene] of scenes.entries()) {
+    const take = getSelectedTake(scene);
+    const image = take ? await loadImage(take.imageUrl).catch(() => null) : null;
+    const column = i % options.columns;
+    const row = Math.floor(i / options.columns);
+    drawFrame(ctx, scene, image, {
+      x: margin + column * (cellWidth + gap),
+      y: top + row * (cellHeight + gap),
+      width: cellWidth,
+      height: cellHeight,
+    }, options.showPrompt, mm);
+  }
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) reject(new Error("PDF 페이지를 이미지로 변환하지 못했습니다."));
+      else blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/jpeg', CONTACT_SHEET_JPEG_QUALITY);
+  });
+
+/**
+ * Renders the same storyboard as a PDF, entirely in the browser: each page is drawn on a canvas
+ * (so Korean/Japanese text uses the system fonts) and embedded as a JPEG.
+ */
+export const renderContactSheetPdf = async (
+  scenes: Scene[],
+  options: ContactSheetOptions,
+  cover: ContactSheetCover,
+  onProgress: (done: number, total: number) => void
+): Promise<Blob> => {
+  const pageMm = CONTACT_SHEET_PAGE_MM[options.orientation];
+  const mm = CONTACT_SHEET_PDF_DPI / 25.4; // Pixels per millimetre
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(pageMm.width * mm);
+  canvas.height = Math.round(pageMm.height * mm);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("캔버스를 사용할 수 없습니다.");
+
+  const sheets = paginate(scenes, options);
+  const total = sheets.length + 1;
+  const pages: PdfPageImage[] = [];
+  const addPage = async (draw: () => void | Promise<void>) => {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await draw();
+    pages.push({ jpeg: await canvasToJpeg(canvas), width: canvas.width, height: canvas.height });
+    onProgress(pages.length, total);
+  };
+
+  await addPage(() => drawCover(ctx, cover, mm));
+  for (const [i, sheet] of sheets.entries()) {
+    await addPage(() => drawSheet(ctx, sheet, options, { title: cover.title, page: `${i + 1} / ${sheets.length}` }, mm));
+  }
+  return buildImagePdf(pages, pageMm, cover.title);
+};
@@ -0,0 +1,125 @@
+import { ErrorCode } from "../types";
+
+/**
+ * Error with a typed category, so callers never have to substring-match messages.
+ */
+export class GenerationError extends Error {
+  code: ErrorCode;
+  retryAfterMs?: number;
+  status?: number;
+
+  constructor(code: ErrorCode, message: string, options: { retryAfterMs?: number; status?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.code = code;
+    this.retryAfterMs = options.retryAfterMs;
+    this.status = options.status;
+  }
+}
+
+export const ERROR_CODE_LABELS: Record<ErrorCode, string> = {
+  [ErrorCode.RATE_LIMIT]: '사용량 제한 (일시)',
+  [ErrorCode.QUOTA_EXHAUSTED]: '일일 할당량 소진',
+  [ErrorCode.SAFETY_BLOCK]: '안전 정책 차단',
+  [ErrorCode.PERMISSION]: '권한 오류',
+  [ErrorCode.INVALID_REQUEST]: '잘못된 요청',
+  [ErrorCode.NETWORK]: '네트워크/서버 오류',
+  [ErrorCode.EMPTY_RESPONSE]: '빈 응답',
+  [ErrorCode.MALFORMED_JSON]: 'JSON 파싱 오류',
+  [ErrorCode.UNKNOWN]: '알 수 없는 오류',
+};
+
+interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number; // Doubled per attempt unless the server sent a retry hint
+}
+
+/**
+ * Per-category retry policy. RATE_LIMIT retries come from the per-model chain setting instead.
+ * Permanent failures (permission, daily quota, safety, bad request) are never retried in place;
+ * the provider moves on to the next model.
+ */
+export const RETRY_POLICIES: Record<ErrorCode, RetryPolicy> = {
+  [ErrorCode.RATE_LIMIT]: { retries: 5, baseDelayMs: 15000 },
+  [ErrorCode.QUOTA_EXHAUSTED]: { retries: 0, baseDelayMs: 0 },
+  [ErrorCode.SAFETY_BLOCK]: { retries: 0, baseDelayMs: 0 },
+  [ErrorCode.PERMISSION]: { retries: 0, baseDelayMs: 0 },
+  [ErrorCode.INVALID_REQUEST]: { retries: 0, baseDelayMs: 0 },
+  [ErrorCode.NETWORK]: { retries: 2, baseDelayMs: 5000 },
+  [ErrorCode.EMPTY_RESPONSE]: { retries: 1, baseDelayMs: 2000 },
+  [ErrorCode.MALFORMED_JSON]: { retries: 1, baseDelayMs: 2000 },
+  [ErrorCode.UNKNOWN]: { retries: 0, baseDelayMs: 0 },
+};
+
+// Gemini error bodies look like {"error":{"code":429,"status":"RESOURCE_EXHAUSTED","details":[...]}}
+const extractApiStatus = (message: string): string | undefined => {
+  const match = /"status"\s*:\s*"([A-Z_]+)"/.exec(message);
+  return match ? match[1] : undefined;
+};
+
+const extractRetryAfterMs = (message: string): number | undefined => {
+  const match = /"retryDelay"\s*:\s*"([\d.]+)s"/.exec(message) || /retry in ([\d.]+)\s*s/i.exec(message);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Daily quotas have ids like "GenerateRequestsPerDayPerProjectPerModel"
+const isDailyQuota = (message: string) => /PerDay/i.test(message);
+
+export const errorCodeFromHttpStatus = (status: number, message = ''): ErrorCode => {
+  if (status === 429) return isDailyQuota(message) ? ErrorCode.QUOTA_EXHAUSTED : ErrorCode.RATE_LIMIT;
+  if (status === 401 || status === 403) return ErrorCode.PERMISSION;
+  if (status === 400 || status === 404 || status === 422) {
+    return /safety|blocked|prohibited|policy/i.test(message) ? ErrorCode.SAFETY_BLOCK : ErrorCode.INVALID_REQUEST;
+  }
+  if (status >= 500) return ErrorCode.NETWORK;
+  return ErrorCode.UNKNOWN;
+};
+
+/**
+ * Maps anything thrown by an SDK call or fetch to a GenerationError.
+ * Uses the HTTP status and the structured API status first; message text is only a last resort.
+ */
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const err = (typeof error === 'object' && error !== null ? error : {}) as Partial<{ message: string; status: number; retryAfterMs: number }>;
+  const message = typeof err.message === 'string' ? err.message : String(error);
+  const status = typeof err.status === 'number' ? err.status : undefined;
+  const retryAfterMs = typeof err.retryAfterMs === 'number' ? err.retryAfterMs : extractRetryAfterMs(message);
+  const build = (code: ErrorCode) => new GenerationError(code, message, { retryAfterMs, status, cause: error });
+
+  if (error instanceof SyntaxError) return build(ErrorCode.MALFORMED_JSON);
+  // fetch() rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError && /fetch|network/i.test(message)) return build(ErrorCode.NETWORK);
+
+  if (status !== undefined) return build(errorCodeFromHttpStatus(status, message));
+
+  switch (extractApiStatus(message)) {
+    case 'RESOURCE_EXHAUSTED': return build(isDailyQuota(message) ? ErrorCode.QUOTA_EXHAUSTED : ErrorCode.RATE_LIMIT);
+    case 'PERMISSION_DENIED':
+    case 'UNAUTHENTICATED': return build(ErrorCode.PERMISSION);
+    case 'INVALID_ARGUMENT':
+    case 'FAILED_PRECONDITION': return build(/safety|blocked/i.test(message) ? ErrorCode.SAFETY_BLOCK : ErrorCode.INVALID_REQUEST);
+    case 'UNAVAILABLE':
+    case 'INTERNAL':
+    case 'DEADLINE_EXCEEDED': return build(ErrorCode.NETWORK);
+  }
+
+  return build(ErrorCode.UNKNOWN);
+};
+
+/**
+ * Korean message shown on the scene / in the log once all retries and fallbacks failed.
+ */
+export const toUserMessage = (error: GenerationError): string => {
+  switch (error.code) {
+    case ErrorCode.SAFETY_BLOCK: return `이미지 생성 실패 (안전 정책 차단): ${error.message}`;
+    case ErrorCode.PERMISSION: return "권한 오류: API 키가 모델 접근 권한이 없습니다.";
+    case ErrorCode.RATE_LIMIT: return "API 사용량 초과 (최대 재시도 실패). 잠시 후 다시 시도하세요.";
+    case ErrorCode.QUOTA_EXHAUSTED: return "오늘의 API 할당량을 모두 사용했습니다. 내일 다시 시도하거나 다른 모델을 사용하세요.";
+    case ErrorCode.NETWORK: return `네트워크/서버 오류: ${error.message}`;
+    case ErrorCode.EMPTY_RESPONSE: return `응답에 이미지가 없습니다: ${error.message}`;
+    case ErrorCode.MALFORMED_JSON: return `응답 JSON을 해석할 수 없습니다: ${error.message}`;
+    default: return `API 호출 실패: ${error.message}`;
+  }
+};
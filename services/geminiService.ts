@@ -1,123 +1,322 @@
 
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Scene, SceneStatus } from "../types";
-import { IFMAN_CHARACTER_PROMPT, ART_STYLE_PROMPT, SAFETY_PROMPT } from "../constants";
+import { GoogleGenAI, Type, Schema, GenerateContentResponse } from "@google/genai";
+import { Scene, SceneStatus, GeneratedImage, ErrorCode, QaResult, Character, StyleProfile, AnalysisOptions, ScriptLanguage, ImageTextLanguage } from "../types";
+import { GOOGLE_PROVIDER_ID, TEXT_LIMITER_KEY, QA_CHECKS, IFMAN_CHARACTER_ID, MAX_SCENES, ANALYSIS_CHUNK_CHARS, ANALYSIS_CONTEXT_CHARS, SHOT_TYPES, CAMERA_ANGLES, SCRIPT_LANGUAGES } from "../constants";
+import { ImageProvider, ImageProviderOptions, registerImageProvider, getImageProvider } from "./imageProviders";
+import { callWithRetry } from "./retry";
+import { GenerationError, classifyError, toUserMessage } from "./errors";
+import { createSceneUid } from "../utils/sceneOps";
+import { getSceneCharacters, isIfmanVisible } from "../utils/characterUtils";
+import { ScenePromptOptions, buildScenePrompt, describeImageTextRule } from "../utils/promptTemplate";
+import { splitScriptIntoChunks } from "../utils/scriptChunks";
+import { salvageArrayItems } from "../utils/jsonSalvage";
+import { estimateNarrationSeconds } from "../utils/durationUtils";
+import { resolveScriptLanguage } from "../utils/languageUtils";
 
-// Helper to delay execution
-export const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+export interface ScriptAnalysis {
+  scenes: Scene[];
+  newCharacters: Character[]; // Recurring people the model defined that are not in the library yet
+  reachedSceneLimit: boolean; // Stopped early because the scene cap (options / MAX_SCENES) was reached
+  language: ScriptLanguage; // Language the script was analyzed as (chosen or detected)
+}
+
+// Reported after every chunk so the gallery can fill in while the rest is still being analyzed
+export interface AnalysisProgress {
+  chunkIndex: number; // 1-based index of the chunk that just finished
+  chunkCount: number;
+  scenes: Scene[]; // Scenes from this chunk, numbered after the previous chunks
+  newCharacters: Character[]; // Characters first defined in this chunk
+  salvaged: boolean; // Output was cut off; only the complete scenes were kept
+}
+
+// Where a partial re-analysis picks up: the text and scene just before the changed section
+export interface AnalysisContinuation {
+  context: string;
+  lastScene?: Scene;
+}
+
+const ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    characters: {
+      type: Type.ARRAY,
+      description: "Recurring characters that are NOT in the library yet",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "Short lowercase id, e.g. 'doctor'" },
+          name: { type: Type.STRING, description: "Display name" },
+          description: { type: Type.STRING, description: "Fixed visual description reused in every scene" },
+        },
+        required: ["id", "name", "description"],
+      },
+    },
+    scenes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          scriptSegment: { type: Type.STRING, description: "The original script text, in the script's language (never translated)" },
+          caption: { type: Type.STRING, description: "Translation of scriptSegment for subtitles; empty unless requested" },
+          englishPrompt: { type: Type.STRING, description: "Visual description of the scene action" },
+          characterIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Ids of the characters visible in the shot" },
+          shotType: { type: Type.STRING, enum: Object.keys(SHOT_TYPES), description: "Framing of the shot" },
+          cameraAngle: { type: Type.STRING, enum: Object.keys(CAMERA_ANGLES), description: "Camera angle" },
+          location: { type: Type.STRING, description: "Where the shot takes place, in English (e.g. 'hospital corridor at night')" },
+        },
+        required: ["scriptSegment", "englishPrompt", "characterIds", "shotType", "cameraAngle", "location"],
+      },
+    },
+  },
+  required: ["characters", "scenes"],
+  // Characters first, so they survive even when the scene list is cut off
+  propertyOrdering: ["characters", "scenes"],
+};
 
 /**
- * Smart Retry Wrapper with Exponential Backoff
- * Handles 429 (Too Many Requests), Quota Exceeded, and 503 errors.
+ * Streams one chunk's analysis. A truncated or broken answer is salvaged down to its complete
+ * scenes; only an answer without a single usable scene is treated as an error (and retried).
  */
-const callWithRetry = async <T>(
-  operation: () => Promise<T>,
-  retries = 5,
-  baseDelay = 15000 // Increased base delay for quota errors
-): Promise<T> => {
-  try {
-    return await operation();
-  } catch (error: any) {
-    const errStr = error.toString().toLowerCase();
-    
-    // Check for Rate Limit (429), Quota Exceeded, or Overload
-    const isRateLimit = 
-      errStr.includes("429") || 
-      errStr.includes("quota") || 
-      errStr.includes("limit") ||
-      errStr.includes("resource has been exhausted") || 
-      errStr.includes("503") ||
-      errStr.includes("overloaded");
-
-    if (retries > 0 && isRateLimit) {
-      console.warn(`API Quota/Limit hit. Waiting ${baseDelay/1000}s before retry... (${retries} left)`);
-      await delay(baseDelay);
-      // Exponential backoff: wait longer next time (15s -> 30s -> 60s)
-      return callWithRetry(operation, retries - 1, baseDelay * 2);
+const analyzeChunk = async (
+  ai: GoogleGenAI,
+  systemInstruction: string,
+  contents: string
+): Promise<{ characters: any[]; scenes: any[]; salvaged: boolean }> =>
+  callWithRetry(TEXT_LIMITER_KEY, async () => {
+    const stream = await ai.models.generateContentStream({
+      model: 'gemini-2.5-flash',
+      contents,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: ANALYSIS_SCHEMA,
+      },
+    });
+
+    let text = '';
+    try {
+      for await (const part of stream) {
+        text += part.text ?? '';
+      }
+    } catch (streamError) {
+      // Keep what already arrived; it is salvaged below if it contains complete scenes
+      if (!text) throw streamError;
+      console.warn("Analysis stream interrupted, salvaging partial output:", streamError);
     }
-    throw error;
-  }
+
+    if (!text) throw new GenerationError(ErrorCode.EMPTY_RESPONSE, "Gemini로부터 응답 텍스트가 없습니다.");
+    try {
+      const parsed = JSON.parse(text);
+      return { characters: parsed.characters ?? [], scenes: parsed.scenes ?? [], salvaged: false };
+    } catch (parseError) {
+      const scenes = salvageArrayItems(text, 'scenes');
+      if (scenes.length === 0) {
+        throw new GenerationError(ErrorCode.MALFORMED_JSON, `분석 결과 JSON이 올바르지 않습니다: ${(parseError as Error).message}`);
+      }
+      return { characters: salvageArrayItems(text, 'characters'), scenes, salvaged: true };
+    }
+  });
+
+// Granularity-specific splitting rules and default quantity goal
+const GRANULARITY_RULES: Record<AnalysisOptions['granularity'], { intro: string; rules: string[]; quantity: string }> = {
+  paragraph: {
+    intro: "split it into ONE visual scene per paragraph",
+    rules: ["**ONE SCENE PER PARAGRAPH**: Summarize each paragraph in a single representative shot. Do NOT split paragraphs into sentences."],
+    quantity: "about one scene per paragraph in this part",
+  },
+  sentence: {
+    intro: "split it into ONE visual scene per sentence",
+    rules: ["**ONE SCENE PER SENTENCE**: Each sentence gets its own shot. Do not split sentences further."],
+    quantity: "about one scene per sentence in this part",
+  },
+  clause: {
+    intro: "split it into the MAXIMUM possible number of granular visual scenes",
+    rules: [
+      `**SPLIT EVERYTHING**: Do not group actions or sentences. 
+       - If a sentence has two clauses, make two scenes.
+       - If someone talks and then moves, make two scenes.`,
+      "**VISUAL PACING**: Treat this as a slow-motion cinematic sequence. We need MORE frames than the text suggests.",
+    ],
+    quantity: "1.5x to 2x the number of sentences in this part",
+  },
+};
+
+/**
+ * Builds the numbered splitting rules for one chunk from the project's analysis options.
+ * `chunkTarget` is this chunk's share of the target scene count (0 = no target).
+ */
+const buildGranularityRules = (options: AnalysisOptions, chunkTarget: number, budget: number): { intro: string; rules: string } => {
+  const granularity = GRANULARITY_RULES[options.granularity];
+  const shots: string[] = [];
+  if (options.insertShots) shots.push('"Insert Shots" (Close-up of hands, eyes, objects)');
+  if (options.reactionShots) shots.push('"Reaction Shots" (Listener nodding, surprised face)');
+  const rules = [
+    ...granularity.rules,
+    shots.length > 0
+      ? `**EXTRA CUTS**: Add ${shots.join(' and ')} between story beats and dialogues.`
+      : "**NO EXTRA CUTS**: Do NOT add insert or reaction shots that have no matching text.",
+    `**QUANTITY GOAL**: Aim for ${chunkTarget > 0 ? `about ${chunkTarget} scenes` : granularity.quantity}, but NEVER more than ${budget} scenes.`,
+  ];
+  return { intro: granularity.intro, rules: rules.map((rule, i) => `    ${i + 1}. ${rule}`).join('\n') };
 };
 
 /**
  * Analyzes the raw script and breaks it down into scenes with prompts.
+ * Long scripts are analyzed chunk by chunk (see splitScriptIntoChunks); `onProgress` receives
+ * each chunk's scenes as soon as they are ready, and analysis stops at the scene cap.
+ * Scenes reference the character library by id; recurring people missing from it are defined once.
+ * With `continuation`, `script` is an edited section of a longer script that was analyzed before.
  */
-export const analyzeScript = async (apiKey: string, script: string): Promise<Scene[]> => {
+export const analyzeScript = async (
+  apiKey: string,
+  script: string,
+  characters: Character[],
+  options: AnalysisOptions,
+  onProgress?: (progress: AnalysisProgress) => void,
+  continuation?: AnalysisContinuation
+): Promise<ScriptAnalysis> => {
   const ai = new GoogleGenAI({ apiKey });
-  
-  const systemInstruction = `
+  const chunks = splitScriptIntoChunks(script, ANALYSIS_CHUNK_CHARS, ANALYSIS_CONTEXT_CHARS);
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  const sceneLimit = Math.min(MAX_SCENES, options.maxSceneCount || MAX_SCENES);
+  const scenes: Scene[] = [];
+  const newCharacters: Character[] = [];
+  const language = resolveScriptLanguage(options.language, script);
+  const languageName = SCRIPT_LANGUAGES[language].name;
+  // A caption in the script's own language would just repeat scriptSegment
+  const captionLanguage = options.captionLanguage !== 'none' && options.captionLanguage !== language ? options.captionLanguage : null;
+  // The narrator is drawn only while its library entry exists
+  const narrator = characters.find(c => c.id === IFMAN_CHARACTER_ID);
+  const narratorRules = narrator
+    ? [
+        `    - The main narrator is "${narrator.id}" (${narrator.name}: ${narrator.description.replace(/\s+/g, ' ')}).`,
+        `    - HOWEVER, do NOT include the narrator in every scene.`,
+        `    - ONLY list "${narrator.id}" if the narrator is the one acting, talking, or reacting in the scene.`,
+      ].join('\n')
+    : `    - The narrator has no character in the library and is NEVER drawn; show what they talk about instead.`;
+
+  try {
+    for (let index = 0; index < chunks.length; index++) {
+      const budget = sceneLimit - scenes.length;
+      if (budget <= 0) {
+        return { scenes, newCharacters, reachedSceneLimit: true, language };
+      }
+
+      // The library grows with every chunk so later chunks reuse the ids defined earlier
+      const knownCharacters = [...characters, ...newCharacters];
+      const library = knownCharacters.map(c => `    - id "${c.id}" (${c.name}): ${c.description.replace(/\s+/g, ' ')}`).join('\n');
+      const lastScene = scenes[scenes.length - 1] ?? continuation?.lastScene;
+      const context = chunks[index].context || (continuation?.context.slice(-ANALYSIS_CONTEXT_CHARS) ?? '');
+      // The target is spread over the chunks by length
+      const chunkTarget = options.targetSceneCount > 0
+        ? Math.max(1, Math.round(options.targetSceneCount * chunks[index].text.length / totalChars))
+        : 0;
+      const granularity = buildGranularityRules(options, chunkTarget, budget);
+
+      const systemInstruction = `
     You are an expert storyboard artist obsessed with detailed shot breakdown. 
-    Analyze the provided Korean script and split it into the MAXIMUM possible number of granular visual scenes.
+    Analyze the provided ${languageName} script and ${granularity.intro}.
+    The script is long, so you receive it in parts. This is part ${index + 1} of ${chunks.length}.
     
-    CRITICAL RULES FOR EXTREME GRANULARITY:
-    1. **SPLIT EVERYTHING**: Do not group actions or sentences. 
-       - If a sentence has two clauses, make two scenes.
-       - If someone talks and then moves, make two scenes.
-    2. **INSERT CUTS**: Add "Insert Shots" (Close-up of hands, eyes, objects) and "Reaction Shots" (Listener nodding, surprised face) between dialogues.
-    3. **VISUAL PACING**: Treat this as a slow-motion cinematic sequence. We need MORE frames than the text suggests.
-    4. **QUANTITY GOAL**: Aim for 1.5x to 2x the number of sentences in the script. If the script is long, **AIM FOR 150+ SCENES**.
+    CRITICAL RULES FOR SHOT BREAKDOWN:
+${granularity.rules}
     
+    CHARACTER LIBRARY (recurring cast, referenced by id):
+${library}
+
     CONTEXTUAL CHARACTER LOGIC:
-    - The main narrator is 'Ifman' (a stick figure with a Korean hat).
-    - HOWEVER, do NOT include Ifman in every scene.
-    - IF the script mentions a specific person (e.g., Steve Jobs, Elon Musk, a Doctor), describe THAT person in a cartoon style, and set 'mainCharacterVisible' to FALSE.
-    - IF the script focuses on an object (e.g., a watch, a phone, a chart), describe ONLY the object, and set 'mainCharacterVisible' to FALSE.
-    - ONLY set 'mainCharacterVisible' to TRUE if Ifman is the one acting, talking, or reacting in the scene.
+${narratorRules}
+    - IF the script focuses on an object (e.g., a watch, a phone, a chart), describe ONLY the object and leave 'characterIds' EMPTY.
+    - IF a person appears in MORE THAN ONE scene (e.g., a Doctor, the narrator's wife) and is not in the library,
+      define them ONCE in 'characters' with a short lowercase id and a detailed, fixed visual description
+      (cartoon style: age, build, hair, clothing, colors), then list that id in every scene they appear in.
+    - A person who appears only once (e.g., Steve Jobs in a single anecdote) is described inline in the englishPrompt instead.
     
     For each scene, provide:
-    1. scriptSegment: The specific part of the text or implied action for this shot.
-    2. englishPrompt: Detailed visual description of the action/setting (do not describe Ifman here, just the action).
-    3. mainCharacterVisible: Boolean. True if Ifman is in the shot, False otherwise.
+    1. scriptSegment: The specific part of the text or implied action for this shot, in ${languageName} exactly as written (do NOT translate).
+       caption: ${captionLanguage ? `The scriptSegment translated into natural ${SCRIPT_LANGUAGES[captionLanguage].name} for subtitles.` : 'Leave empty.'}
+    2. englishPrompt: Detailed visual description of the action/setting (do not describe the looks of listed characters here, just name them and describe the action).
+    3. characterIds: Ids of the library/defined characters visible in the shot.
+    4. shotType / cameraAngle: Framing and angle that best tell this beat (vary them; insert shots are 'insert' or 'extreme-close-up').
+    5. location: The setting of the shot. Keep the SAME wording for every scene in the same place so backgrounds stay consistent.
   `;
 
-  const schema: Schema = {
-    type: Type.ARRAY,
-    items: {
-      type: Type.OBJECT,
-      properties: {
-        scriptSegment: { type: Type.STRING, description: "The original Korean text" },
-        englishPrompt: { type: Type.STRING, description: "Visual description of the scene action" },
-        mainCharacterVisible: { type: Type.BOOLEAN, description: "True if Ifman is the subject, False if it's another person or object" },
-      },
-      required: ["scriptSegment", "englishPrompt", "mainCharacterVisible"],
-    },
-  };
+      // Context from the previous part is for continuity only and must not produce scenes again
+      const contents = [
+        context && `PREVIOUS PART (context only, already storyboarded - do NOT create scenes for it):\n${context}`,
+        lastScene && `LAST SCENE SO FAR: ${lastScene.englishPrompt}`,
+        `SCRIPT PART TO STORYBOARD:\n${chunks[index].text}`,
+      ].filter(Boolean).join('\n\n');
 
-  try {
-    // Wrap analysis in retry as well, just in case
-    const response = await callWithRetry(async () => {
-      return await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: script,
-        config: {
-          systemInstruction: systemInstruction,
-          responseMimeType: "application/json",
-          responseSchema: schema,
-        },
-      });
-    });
+      const result = await analyzeChunk(ai, systemInstruction, contents);
 
-    const text = response.text;
-    if (!text) throw new Error("Gemini로부터 응답 텍스트가 없습니다.");
+      // Library entries always win over a redefinition with the same id
+      const chunkCharacters: Character[] = result.characters
+        .filter((c: any) => c.id && !knownCharacters.some(existing => existing.id === c.id))
+        .map((c: any) => ({ id: String(c.id), name: c.name || c.id, description: c.description || '', referenceImages: [] }));
+      const knownIds = new Set([...knownCharacters, ...chunkCharacters].map(c => c.id));
 
-    const parsed = JSON.parse(text);
-    
-    // Map to internal Scene type
-    return parsed.map((item: any, index: number) => ({
-      id: index + 1,
-      scriptSegment: item.scriptSegment,
-      englishPrompt: item.englishPrompt,
-      mainCharacterVisible: item.mainCharacterVisible ?? true, 
-      status: SceneStatus.IDLE,
-      retryCount: 0,
-    }));
+      // Map to internal Scene type
+      const chunkScenes: Scene[] = result.scenes.slice(0, budget).map((item: any, i: number) => ({
+        id: scenes.length + i + 1,
+        uid: createSceneUid(),
+        scriptSegment: item.scriptSegment ?? '',
+        caption: captionLanguage && item.caption ? String(item.caption) : undefined,
+        englishPrompt: item.englishPrompt ?? '',
+        characterIds: (item.characterIds ?? []).filter((id: string) => knownIds.has(id)),
+        shotType: item.shotType in SHOT_TYPES ? item.shotType : 'medium',
+        cameraAngle: item.cameraAngle in CAMERA_ANGLES ? item.cameraAngle : 'eye-level',
+        location: item.location ?? '',
+        // Screen time follows the narration, not the model's guess
+        durationSec: estimateNarrationSeconds(item.scriptSegment ?? '', language),
+        takes: [],
+        status: SceneStatus.IDLE,
+        retryCount: 0,
+      }));
+
+      scenes.push(...chunkScenes);
+      newCharacters.push(...chunkCharacters);
+      onProgress?.({
+        chunkIndex: index + 1,
+        chunkCount: chunks.length,
+        scenes: chunkScenes,
+        newCharacters: chunkCharacters,
+        salvaged: result.salvaged,
+      });
+    }
+    return { scenes, newCharacters, reachedSceneLimit: scenes.length >= sceneLimit, language };
 
   } catch (error) {
     console.error("Script analysis failed:", error);
-    throw error;
+    const classified = classifyError(error);
+    throw new GenerationError(classified.code, toUserMessage(classified), { cause: error });
   }
 };
 
+// Finish reasons that mean the image was withheld by a safety/policy filter
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_PROHIBITED_CONTENT'];
+
+/**
+ * Pulls the first inline image out of a generateContent response, classifying why there is none.
+ */
+const extractInlineImage = (response: GenerateContentResponse, label: string): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError(ErrorCode.SAFETY_BLOCK, `${label} 프롬프트 차단: ${blockReason}`);
+  }
+  const candidate = response.candidates?.[0];
+  for (const part of candidate?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+  }
+  const finishReason = candidate?.finishReason ? String(candidate.finishReason) : undefined;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new GenerationError(ErrorCode.SAFETY_BLOCK, `${label} 안전 필터: ${finishReason}`);
+  }
+  throw new GenerationError(ErrorCode.EMPTY_RESPONSE, `${label} 응답에 이미지 데이터가 없습니다.`);
+};
+
 /**
  * Internal helper to try Imagen 3
  */
@@ -131,19 +330,35 @@ const generateWithImagen3 = async (ai: GoogleGenAI, prompt: string): Promise<str
       outputMimeType: 'image/jpeg',
     },
   });
-  const data = response.generatedImages?.[0]?.image?.imageBytes;
-  if (!data) throw new Error("Imagen 3 응답에 이미지 데이터가 없습니다.");
+  const generated = response.generatedImages?.[0];
+  if (generated?.raiFilteredReason) {
+    throw new GenerationError(ErrorCode.SAFETY_BLOCK, `Imagen 3 안전 필터: ${generated.raiFilteredReason}`);
+  }
+  const data = generated?.image?.imageBytes;
+  if (!data) throw new GenerationError(ErrorCode.EMPTY_RESPONSE, "Imagen 3 응답에 이미지 데이터가 없습니다.");
   return `data:image/jpeg;base64,${data}`;
 };
 
 /**
  * Internal helper to try Gemini 2.5 Flash Image
  */
-const generateWithGemini25Flash = async (ai: GoogleGenAI, prompt: string): Promise<string> => {
+const generateWithGemini25Flash = async (ai: GoogleGenAI, prompt: string, characters: Character[] = []): Promise<string> => {
+  // Each character's reference images go first, labelled with its name, followed by an instruction to stay on-model
+  const referenceParts = characters.flatMap(character => {
+    const images = character.referenceImages.flatMap(ref => {
+      const match = /^data:([^;]+);base64,(.*)$/.exec(ref.imageUrl);
+      return match ? [{ inlineData: { mimeType: match[1], data: match[2] } }] : [];
+    });
+    return images.length > 0 ? [{ text: `Reference image(s) of '${character.name}':` }, ...images] : [];
+  });
+  const referenceNote = referenceParts.length > 0
+    ? `REFERENCE IMAGES: The attached images show the canonical design of the named characters. Match their proportions, face, hair/hat, clothing and colors EXACTLY. Do not copy their background or pose.\n`
+    : '';
+
   const response = await ai.models.generateContent({
     model: 'gemini-2.5-flash-image',
     contents: {
-      parts: [{ text: prompt }],
+      parts: [...referenceParts, { text: referenceNote + prompt }],
     },
     config: {
       imageConfig: {
@@ -151,12 +366,7 @@ const generateWithGemini25Flash = async (ai: GoogleGenAI, prompt: string): Promi
       }
     },
   });
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-    }
-  }
-  throw new Error("Gemini 2.5 Flash 응답에 이미지 데이터가 없습니다.");
+  return extractInlineImage(response, "Gemini 2.5 Flash");
 };
 
 /**
@@ -174,87 +384,192 @@ const generateWithGemini20Exp = async (ai: GoogleGenAI, prompt: string): Promise
       }
     },
   });
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+  return extractInlineImage(response, "Gemini 2.0 Flash Exp");
+};
+
+// Model id -> generator, used to walk the user-configured fallback chain.
+// Only Gemini 2.5 Flash Image takes reference images; the others fall back to text-only prompting.
+const GOOGLE_MODEL_GENERATORS: Record<string, (ai: GoogleGenAI, prompt: string, characters: Character[]) => Promise<string>> = {
+  'gemini-2.5-flash-image': generateWithGemini25Flash,
+  'imagen-3.0-generate-001': generateWithImagen3,
+  'gemini-2.0-flash-exp': generateWithGemini20Exp,
+};
+
+/**
+ * Google provider: walks the enabled models of the configured chain in order.
+ */
+const googleImageProvider: ImageProvider = {
+  id: GOOGLE_PROVIDER_ID,
+  label: 'Google Gemini / Imagen (자동 전환)',
+  needsApiKey: true,
+  needsEndpoint: false,
+  rateLimited: true,
+  generate: async ({ prompt: fullPrompt, characters }, { apiKey, modelChain }) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const chain = modelChain.filter(entry => entry.enabled && GOOGLE_MODEL_GENERATORS[entry.model]);
+    if (chain.length === 0) {
+      throw new Error("사용 가능한 모델이 없습니다. 모델 순서 설정에서 하나 이상 활성화하세요.");
     }
-  }
-  throw new Error("Gemini 2.0 Flash Exp 응답에 이미지 데이터가 없습니다.");
+
+    let lastError: GenerationError | undefined;
+    for (const entry of chain) {
+      try {
+        const generate = GOOGLE_MODEL_GENERATORS[entry.model];
+        const imageUrl = await callWithRetry(entry.model, () => generate(ai, fullPrompt, characters), entry.retries);
+        return { imageUrl, model: entry.model };
+      } catch (error: any) {
+        lastError = classifyError(error);
+        console.warn(`${entry.model} failed (${lastError.code}), trying next model in chain.`, error);
+      }
+    }
+
+    // Final error handling: keep the category so the UI can filter / bulk-retry by it
+    throw new GenerationError(lastError!.code, toUserMessage(lastError!), { cause: lastError });
+  },
 };
 
+registerImageProvider(googleImageProvider);
+
 /**
- * Generates a single image for a scene with robust fallback strategy.
+ * Asks the Gemini text model for a policy-compliant version of a blocked image prompt.
+ * The story beat is kept; real people, brands and graphic details are replaced with generic equivalents.
  */
-export const generateSceneImage = async (
-  apiKey: string, 
-  scene: Scene, 
-  isRetry: boolean = false
-): Promise<string> => {
+export const rewriteBlockedPrompt = async (apiKey: string, scene: Scene, blockReason: string): Promise<string> => {
   const ai = new GoogleGenAI({ apiKey });
 
-  // 1. Construct the prompt based on whether Ifman is in the scene
-  let characterDef = "";
-  if (scene.mainCharacterVisible) {
-    characterDef = `CHARACTER: ${IFMAN_CHARACTER_PROMPT}`;
-  } else {
-    characterDef = `
-    CRITICAL INSTRUCTION:
-    - Do NOT draw the 'Ifman' character.
-    - Draw the subject with NORMAL CARTOON EYES.
-    - ABSOLUTELY NO TEXT/LETTERS ON THE FACE.
-    `;
-  }
-
-  // Enforce English Text if necessary, but prefer none.
-  let textInstruction = "TEXT IN IMAGE: Avoid generating text if possible. If text is required for context, write it in ENGLISH.";
+  const systemInstruction = `
+    You rewrite storyboard image prompts that were rejected by an image model's safety filter.
+    Produce a new prompt that will pass content policies while PRESERVING THE STORY BEAT of the scene.
 
-  let fullPrompt = `
-  ${characterDef}
-  SCENE ACTION: ${scene.englishPrompt}
-  ORIGINAL CONTEXT: ${scene.scriptSegment}
-  ${textInstruction}
-  VISUAL STYLE: ${ART_STYLE_PROMPT}
-  NEGATIVE CONSTRAINTS: ${SAFETY_PROMPT}
+    RULES:
+    1. Replace real, named people (e.g. Steve Jobs, Elon Musk, politicians) with a generic cartoon archetype
+       that conveys their role (e.g. "a tech CEO in a black turtleneck on a stage").
+    2. Replace brand names, logos and copyrighted characters with generic objects.
+    3. Tone down violence, injury, medical gore, weapons or adult themes into symbolic or implied visuals.
+    4. Keep the composition, setting, mood and action as close to the original as possible.
+    5. Write in English, as a single visual description. Do not describe the art style.
   `;
-  
-  if (isRetry) {
-    fullPrompt += `, minimal, simplified`;
-  }
-  
-  let lastError;
 
-  try {
-    // Primary: Gemini 2.5 Flash Image with RETRY logic
-    return await callWithRetry(() => generateWithGemini25Flash(ai, fullPrompt));
-  } catch (error: any) {
-    lastError = error;
-    
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      rewrittenPrompt: { type: Type.STRING, description: "The policy-compliant visual description" },
+    },
+    required: ["rewrittenPrompt"],
+  };
+
+  const rewritten = await callWithRetry(TEXT_LIMITER_KEY, async () => {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: `BLOCK REASON: ${blockReason}\nSCRIPT CONTEXT: ${scene.scriptSegment}\nBLOCKED PROMPT: ${scene.englishPrompt}`,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: schema,
+      },
+    });
+    const text = response.text;
+    if (!text) throw new GenerationError(ErrorCode.EMPTY_RESPONSE, "프롬프트 재작성 응답이 없습니다.");
     try {
-        // Fallback 1: Imagen 3 with RETRY logic
-        return await callWithRetry(() => generateWithImagen3(ai, fullPrompt));
-    } catch (error2: any) {
-      lastError = error2;
+      return String(JSON.parse(text).rewrittenPrompt ?? '').trim();
+    } catch (parseError) {
+      throw new GenerationError(ErrorCode.MALFORMED_JSON, `프롬프트 재작성 JSON이 올바르지 않습니다: ${(parseError as Error).message}`);
+    }
+  });
 
-      try {
-        // Fallback 2: Gemini 2.0 Flash Exp with RETRY logic
-        return await callWithRetry(() => generateWithGemini20Exp(ai, fullPrompt));
-      } catch (error3: any) {
-        lastError = error3;
-        
-        // Final error handling
-        const errStr = lastError.toString().toLowerCase();
-        if (errStr.includes("safety") || errStr.includes("400")) {
-          throw new Error(`이미지 생성 실패 (안전/요청 오류): ${lastError.message}`);
-        }
-        if (errStr.includes("403") || errStr.includes("permission denied")) {
-          throw new Error(`권한 오류 (403): API 키가 모델 접근 권한이 없습니다.`);
-        }
-        // If it's still quota after all retries
-        if (errStr.includes("quota") || errStr.includes("exhausted") || errStr.includes("429")) {
-             throw new Error("API 사용량 초과 (최대 재시도 실패). 잠시 후 다시 시도하거나 내일 이용하세요.");
-        }
-        throw new Error(`API 호출 실패: ${lastError.message}`);
-      }
+  if (!rewritten) throw new GenerationError(ErrorCode.EMPTY_RESPONSE, "재작성된 프롬프트가 비어 있습니다.");
+  return rewritten;
+};
+
+/**
+ * Vision QA: asks Gemini whether a generated image follows the character/style rules.
+ * Only the checks that apply to this scene (Ifman visible or not) are asked and scored.
+ */
+export const checkSceneImage = async (
+  apiKey: string,
+  scene: Scene,
+  imageUrl: string,
+  style: StyleProfile,
+  imageTextLanguage: ImageTextLanguage,
+  characters: Character[]
+): Promise<QaResult> => {
+  const ai = new GoogleGenAI({ apiKey });
+  const checks = QA_CHECKS.filter(c => c.when === 'always' || (c.when === 'ifman') === isIfmanVisible(scene, characters));
+
+  const match = /^data:([^;]+);base64,(.*)$/.exec(imageUrl);
+  if (!match) throw new GenerationError(ErrorCode.INVALID_REQUEST, "QA 대상 이미지 형식이 올바르지 않습니다.");
+
+  const checklist = checks.map(c => `- ${c.id}: ${c.question}`).join('\n');
+  const schema: Schema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        id: { type: Type.STRING, description: "Check id from the checklist" },
+        passed: { type: Type.BOOLEAN, description: "True if the statement is true for the image" },
+        note: { type: Type.STRING, description: "Short reason, especially when failed" },
+      },
+      required: ["id", "passed"],
+    },
+  };
+
+  const answers = await callWithRetry(TEXT_LIMITER_KEY, async () => {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: {
+        parts: [
+          { inlineData: { mimeType: match[1], data: match[2] } },
+          { text: `You are a strict storyboard QA reviewer. For EACH statement below, decide if it is TRUE for this image.\nScene description: ${scene.englishPrompt}\n\nART STYLE:\n${style.artStyle}\n\nTEXT RULE:\n${describeImageTextRule(imageTextLanguage)}\n\nCHECKLIST:\n${checklist}` },
+        ],
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+      },
+    });
+    const text = response.text;
+    if (!text) throw new GenerationError(ErrorCode.EMPTY_RESPONSE, "QA 응답이 없습니다.");
+    try {
+      return JSON.parse(text) as { id: string; passed: boolean; note?: string }[];
+    } catch (parseError) {
+      throw new GenerationError(ErrorCode.MALFORMED_JSON, `QA JSON이 올바르지 않습니다: ${(parseError as Error).message}`);
     }
+  });
+
+  // Unanswered checks count as failed so a lazy answer can't inflate the score
+  const results = checks.map(c => {
+    const answer = answers.find(a => a.id === c.id);
+    return { id: c.id, label: c.label, passed: answer?.passed === true, note: answer?.note };
+  });
+  return {
+    score: results.length ? results.filter(r => r.passed).length / results.length : 1,
+    checks: results,
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Generates a single image for a scene with the selected image provider.
+ * The prompt comes from the project's template (see buildScenePrompt).
+ */
+export const generateSceneImage = async (
+  options: ImageProviderOptions,
+  providerId: string,
+  scene: Scene, 
+  isRetry: boolean,
+  promptOptions: ScenePromptOptions
+): Promise<GeneratedImage> => {
+  const provider = getImageProvider(providerId);
+  if (provider.needsApiKey && !options.apiKey) {
+    throw new Error("API 키가 없습니다.");
   }
+
+  const fullPrompt = buildScenePrompt(scene, isRetry, promptOptions);
+
+  const { imageUrl, model } = await provider.generate({
+    prompt: fullPrompt,
+    scene,
+    characters: getSceneCharacters(scene, promptOptions.characters),
+  }, options);
+  return { imageUrl, prompt: fullPrompt, model };
 };
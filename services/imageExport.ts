@@ -0,0 +1,65 @@
+import { Scene, ImageExportOptions } from "../types";
+import { EXPORT_RESOLUTIONS, EXPORT_IMAGE_FORMATS } from "../constants";
+import { loadImage } from "../utils/imageUtils";
+import { getCaptionText, drawCaption } from "../utils/captionUtils";
+import { getDataUrlMimeType, extensionForMimeType, dataUrlToBlob } from "../utils/fileUtils";
+
+export interface ExportedImage {
+  blob: Blob;
+  extension: string; // Matches the blob's actual type
+}
+
+// True when the images can be written as-is (no resize, conversion or subtitle)
+const isPassThrough = (options: ImageExportOptions): boolean =>
+  options.resolution === 'original' && options.format === 'original' && options.captions === 'none';
+
+// Re-encoding keeps the model's format unless it is one the canvas cannot write
+const outputMimeType = (imageUrl: string, options: ImageExportOptions): string => {
+  if (options.format !== 'original') return EXPORT_IMAGE_FORMATS[options.format].mimeType;
+  const original = getDataUrlMimeType(imageUrl);
+  return Object.values(EXPORT_IMAGE_FORMATS).some(f => f.mimeType === original) ? original : 'image/png';
+};
+
+/**
+ * Extension an image will get when exported with these options; lets the timeline exports name
+ * the files before they are rendered. Pass-through keeps the original bytes, so it keeps their type too.
+ */
+export const exportedImageExtension = (imageUrl: string, options: ImageExportOptions): string =>
+  extensionForMimeType(isPassThrough(options) ? getDataUrlMimeType(imageUrl) : outputMimeType(imageUrl, options));
+
+/**
+ * Runs one take through the export pipeline: fit into the target resolution (letterboxed,
+ * upscaling if needed), burn in the subtitle and encode to the chosen format.
+ */
+export const processExportImage = async (scene: Scene, imageUrl: string, options: ImageExportOptions): Promise<ExportedImage> => {
+  if (isPassThrough(options)) {
+    return { blob: await dataUrlToBlob(imageUrl), extension: exportedImageExtension(imageUrl, options) };
+  }
+
+  const mimeType = outputMimeType(imageUrl, options);
+
+  const image = await loadImage(imageUrl);
+  const target = EXPORT_RESOLUTIONS[options.resolution];
+  const canvas = document.createElement('canvas');
+  canvas.width = target.width || image.width;
+  canvas.height = target.height || image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("캔버스를 사용할 수 없습니다.");
+
+  const scale = Math.min(canvas.width / image.width, canvas.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+  drawCaption(ctx, getCaptionText(scene, options.captions), canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, options.quality));
+  if (!blob) throw new Error("이미지를 변환하지 못했습니다.");
+  // Browsers silently fall back to PNG for formats they cannot encode
+  if (blob.type !== mimeType) {
+    throw new Error(`이 브라우저는 ${extensionForMimeType(mimeType).toUpperCase()} 형식으로 저장할 수 없습니다.`);
+  }
+  return { blob, extension: extensionForMimeType(mimeType) };
+};
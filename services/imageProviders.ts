@@ -0,0 +1,185 @@
+import { Scene, ModelChainEntry, ErrorCode, Character } from "../types";
+import { OPENAI_IMAGE_SIZE, SD_IMAGE_WIDTH, SD_IMAGE_HEIGHT } from "../constants";
+import { parseRetryAfterHeader } from "./rateLimiter";
+import { callWithRetry } from "./retry";
+import { GenerationError, errorCodeFromHttpStatus } from "./errors";
+import { wrapText } from "../utils/captionUtils";
+
+export interface ImageProviderRequest {
+  prompt: string; // Fully assembled prompt
+  scene: Scene;
+  characters: Character[]; // Library entries in this scene; providers without image input ignore their reference images
+}
+
+export interface ImageProviderResult {
+  imageUrl: string; // data URL
+  model: string; // Model that actually produced the image
+}
+
+// Connection details for the selected provider (API keys are never saved with the project)
+export interface ImageProviderOptions {
+  apiKey: string; // Gemini API key
+  endpointUrl: string;
+  endpointModel: string;
+  endpointApiKey: string;
+  modelChain: ModelChainEntry[]; // Fallback order for the Google provider
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  needsApiKey: boolean; // Needs the Gemini API key
+  needsEndpoint: boolean; // Needs endpointUrl (and optionally model/key)
+  rateLimited: boolean; // Remote quota applies: requests share a per-model RPM budget (local servers are only retried)
+  generate: (request: ImageProviderRequest, options: ImageProviderOptions) => Promise<ImageProviderResult>;
+}
+
+const registry = new Map<string, ImageProvider>();
+
+export const registerImageProvider = (provider: ImageProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const getImageProvider = (id: string): ImageProvider => {
+  const provider = registry.get(id);
+  if (!provider) throw new Error(`알 수 없는 이미지 제공자입니다: ${id}`);
+  return provider;
+};
+
+export const listImageProviders = (): ImageProvider[] => Array.from(registry.values());
+
+const trimEndpoint = (url: string) => url.trim().replace(/\/+$/, '');
+
+const httpError = async (label: string, res: Response): Promise<GenerationError> => {
+  const body = await res.text();
+  return new GenerationError(errorCodeFromHttpStatus(res.status, body), `${label} 요청 실패 (${res.status}): ${body}`, {
+    status: res.status,
+    retryAfterMs: parseRetryAfterHeader(res.headers.get('Retry-After')),
+  });
+};
+
+/**
+ * Local Stable Diffusion server exposing the AUTOMATIC1111 / Forge txt2img API.
+ */
+const sdWebUiProvider: ImageProvider = {
+  id: 'sd-webui',
+  label: 'Stable Diffusion (로컬 HTTP)',
+  needsApiKey: false,
+  needsEndpoint: true,
+  rateLimited: false,
+  generate: async ({ prompt }, options) => {
+    if (!options.endpointUrl.trim()) throw new GenerationError(ErrorCode.INVALID_REQUEST, "Stable Diffusion 엔드포인트 주소가 없습니다.");
+    const json = await callWithRetry(null, async () => {
+      const res = await fetch(`${trimEndpoint(options.endpointUrl)}/sdapi/v1/txt2img`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          prompt,
+          width: SD_IMAGE_WIDTH,
+          height: SD_IMAGE_HEIGHT,
+          ...(options.endpointModel ? { override_settings: { sd_model_checkpoint: options.endpointModel } } : {}),
+        }),
+      });
+      if (!res.ok) throw await httpError("Stable Diffusion", res);
+      return res.json();
+    });
+    const data = json.images?.[0];
+    if (!data) throw new GenerationError(ErrorCode.EMPTY_RESPONSE, "Stable Diffusion 응답에 이미지 데이터가 없습니다.");
+    return { imageUrl: `data:image/png;base64,${data}`, model: options.endpointModel || 'stable-diffusion' };
+  },
+};
+
+/**
+ * Any server implementing the OpenAI `POST /v1/images/generations` contract.
+ */
+const openAiCompatibleProvider: ImageProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI 호환 이미지 API',
+  needsApiKey: false,
+  needsEndpoint: true,
+  rateLimited: true,
+  generate: async ({ prompt }, options) => {
+    if (!options.endpointUrl.trim()) throw new GenerationError(ErrorCode.INVALID_REQUEST, "이미지 API 엔드포인트 주소가 없습니다.");
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.endpointApiKey) headers['Authorization'] = `Bearer ${options.endpointApiKey}`;
+    const json = await callWithRetry(`openai-compatible:${options.endpointModel}`, async () => {
+      const res = await fetch(`${trimEndpoint(options.endpointUrl)}/v1/images/generations`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: options.endpointModel || undefined,
+          prompt,
+          n: 1,
+          size: OPENAI_IMAGE_SIZE,
+          response_format: 'b64_json',
+        }),
+      });
+      if (!res.ok) throw await httpError("이미지 API", res);
+      return res.json();
+    });
+    const data = json.data?.[0]?.b64_json;
+    if (!data) throw new GenerationError(ErrorCode.EMPTY_RESPONSE, "이미지 API 응답에 이미지 데이터가 없습니다.");
+    return { imageUrl: `data:image/png;base64,${data}`, model: options.endpointModel || 'openai-compatible' };
+  },
+};
+
+// Small deterministic string hash (FNV-1a) used to pick placeholder colors
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Renders a deterministic placeholder frame (scene number + prompt) on a canvas.
+ * Lets the whole queue/export/UI flow run without an API key or network.
+ */
+const offlinePlaceholderProvider: ImageProvider = {
+  id: 'offline-placeholder',
+  label: '오프라인 플레이스홀더 (테스트용)',
+  needsApiKey: false,
+  needsEndpoint: false,
+  rateLimited: false,
+  generate: async ({ scene }) => {
+    const width = 1280;
+    const height = 720;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("캔버스를 사용할 수 없습니다.");
+
+    const hue = hashString(`${scene.englishPrompt}|${scene.scriptSegment}`) % 360;
+    ctx.fillStyle = `hsl(${hue}, 35%, 22%)`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.strokeStyle = `hsl(${hue}, 60%, 60%)`;
+    ctx.lineWidth = 6;
+    ctx.strokeRect(24, 24, width - 48, height - 48);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'top';
+    ctx.font = 'bold 72px sans-serif';
+    ctx.fillText(`SCENE #${scene.id}`, 64, 56);
+
+    ctx.font = '32px sans-serif';
+    const promptLines = wrapText(ctx, scene.englishPrompt, width - 128).slice(0, 8);
+    promptLines.forEach((line, i) => ctx.fillText(line, 64, 170 + i * 44));
+
+    ctx.fillStyle = `hsl(${hue}, 30%, 75%)`;
+    ctx.font = '26px sans-serif';
+    const segmentLines = wrapText(ctx, scene.scriptSegment, width - 128).slice(0, 3);
+    segmentLines.forEach((line, i) => ctx.fillText(line, 64, height - 190 + i * 36));
+
+    ctx.font = 'bold 20px monospace';
+    ctx.fillText('OFFLINE PLACEHOLDER', 64, height - 70);
+
+    return { imageUrl: canvas.toDataURL('image/png'), model: 'offline-placeholder' };
+  },
+};
+
+registerImageProvider(sdWebUiProvider);
+registerImageProvider(openAiCompatibleProvider);
+registerImageProvider(offlinePlaceholderProvider);
@@ -0,0 +1,150 @@
+// @ts-ignore
+import JSZip from 'jszip';
+import { Scene, SceneStatus, SceneTake, ProjectSettings, ReferenceImage, Character, StyleProfile } from "../types";
+import { PROJECT_BUNDLE_FORMAT, PROJECT_BUNDLE_VERSION } from "../constants";
+import { sceneFileBase, getDataUrlMimeType, extensionForMimeType, mimeTypeForFileName, dataUrlToBlob } from "../utils/fileUtils";
+import { recoverInterruptedScenes } from "./projectStore";
+import { normalizeScenes } from "../utils/sceneOps";
+import { normalizeCharacters } from "../utils/characterUtils";
+
+const MANIFEST_FILE = "project.json";
+const IMAGE_FOLDER = "images";
+const REFERENCE_FOLDER = "references";
+
+// Takes are stored without inline image data; images live next to the manifest as files.
+type BundledTake = Omit<SceneTake, 'imageUrl'> & { imageFile: string };
+// v1 bundles had a single imageFile per scene instead of takes
+type BundledScene = Omit<Scene, 'takes'> & { takes?: BundledTake[]; imageFile?: string };
+type BundledReference = Omit<ReferenceImage, 'imageUrl'> & { imageFile: string };
+type BundledCharacter = Omit<Character, 'referenceImages'> & { referenceImages: BundledReference[] };
+
+interface ProjectBundleManifest {
+  format: string;
+  version: number;
+  exportedAt: string;
+  script: string;
+  analyzedScript?: string; // Script version the scenes were analysed from, for incremental re-analysis
+  settings: ProjectSettings;
+  styleProfile?: StyleProfile; // Copy of the project's profile; the library itself is per browser
+  characters?: BundledCharacter[]; // Added after v2 shipped; absent in older bundles
+  referenceImages?: BundledReference[]; // Ifman references from before the character library
+  scenes: BundledScene[];
+}
+
+export interface ProjectBundleData {
+  script: string;
+  analyzedScript?: string;
+  settings: ProjectSettings;
+  styleProfile?: StyleProfile;
+  characters: Character[];
+  scenes: Scene[];
+}
+
+/**
+ * Packs script, settings and every scene (with its image) into a re-importable ZIP.
+ */
+export const exportProjectBundle = async (data: ProjectBundleData): Promise<Blob> => {
+  const zip = new JSZip();
+  const imgFolder = zip.folder(IMAGE_FOLDER);
+
+  const bundledScenes: BundledScene[] = await Promise.all(data.scenes.map(async (scene) => {
+    const takes = await Promise.all(scene.takes.map(async ({ imageUrl, ...take }, index) => {
+      const fileName = `${sceneFileBase(scene.id)}_take${index + 1}.${extensionForMimeType(getDataUrlMimeType(imageUrl))}`;
+      imgFolder.file(fileName, await dataUrlToBlob(imageUrl));
+      return { ...take, imageFile: `${IMAGE_FOLDER}/${fileName}` };
+    }));
+    return { ...scene, takes };
+  }));
+
+  const refFolder = zip.folder(REFERENCE_FOLDER);
+  const bundledCharacters: BundledCharacter[] = await Promise.all(data.characters.map(async (character, charIndex) => {
+    const referenceImages = await Promise.all(character.referenceImages.map(async ({ imageUrl, ...ref }, index) => {
+      const fileName = `character${charIndex + 1}_ref${index + 1}.${extensionForMimeType(getDataUrlMimeType(imageUrl))}`;
+      refFolder.file(fileName, await dataUrlToBlob(imageUrl));
+      return { ...ref, imageFile: `${REFERENCE_FOLDER}/${fileName}` };
+    }));
+    return { ...character, referenceImages };
+  }));
+
+  const manifest: ProjectBundleManifest = {
+    format: PROJECT_BUNDLE_FORMAT,
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    script: data.script,
+    analyzedScript: data.analyzedScript,
+    settings: data.settings,
+    styleProfile: data.styleProfile,
+    characters: bundledCharacters,
+    scenes: bundledScenes,
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: "blob" });
+};
+
+/**
+ * Rebuilds the gallery state from a bundle created by exportProjectBundle.
+ * Scenes whose image is missing come back as IDLE so only they get generated again.
+ */
+export const importProjectBundle = async (file: Blob): Promise<ProjectBundleData> => {
+  const zip = await JSZip.loadAsync(file);
+  const manifestEntry = zip.file(MANIFEST_FILE);
+  if (!manifestEntry) {
+    throw new Error(`프로젝트 파일이 아닙니다. (${MANIFEST_FILE} 없음)`);
+  }
+
+  const manifest: ProjectBundleManifest = JSON.parse(await manifestEntry.async("string"));
+  if (manifest.format !== PROJECT_BUNDLE_FORMAT) {
+    throw new Error("지원하지 않는 프로젝트 형식입니다.");
+  }
+  if (manifest.version > PROJECT_BUNDLE_VERSION) {
+    throw new Error(`더 최신 버전의 프로젝트 파일입니다. (v${manifest.version})`);
+  }
+
+  const readImage = async (imageFile: string): Promise<string | undefined> => {
+    const entry = zip.file(imageFile);
+    if (!entry) return undefined;
+    const base64 = await entry.async("base64");
+    return `data:${mimeTypeForFileName(imageFile)};base64,${base64}`;
+  };
+
+  const scenes = await Promise.all(manifest.scenes.map(async ({ imageFile, takes: bundledTakes, ...rest }) => {
+    let takes: SceneTake[] | undefined;
+    let imageUrl: string | undefined;
+    if (bundledTakes) {
+      const loaded = await Promise.all(bundledTakes.map(async ({ imageFile: takeFile, ...take }) => {
+        const takeUrl = await readImage(takeFile);
+        return takeUrl ? { ...take, imageUrl: takeUrl } : null;
+      }));
+      takes = loaded.filter((t): t is SceneTake => t !== null);
+    } else if (imageFile) {
+      imageUrl = await readImage(imageFile);
+    }
+
+    const scene = { ...rest, takes, imageUrl };
+    if (!takes?.length && !imageUrl && scene.status === SceneStatus.SUCCESS) {
+      scene.status = SceneStatus.IDLE;
+    }
+    return scene;
+  }));
+
+  const readReferences = async (refs: BundledReference[]): Promise<ReferenceImage[]> =>
+    (await Promise.all(refs.map(async ({ imageFile, ...ref }) => {
+      const imageUrl = await readImage(imageFile);
+      return imageUrl ? { ...ref, imageUrl } : null;
+    }))).filter((r): r is ReferenceImage => r !== null);
+
+  const characters = manifest.characters && await Promise.all(manifest.characters.map(async (character) => ({
+    ...character,
+    referenceImages: await readReferences(character.referenceImages),
+  })));
+
+  return {
+    script: manifest.script,
+    analyzedScript: manifest.analyzedScript,
+    settings: manifest.settings,
+    styleProfile: manifest.styleProfile,
+    characters: normalizeCharacters({ characters, referenceImages: await readReferences(manifest.referenceImages ?? []) }),
+    scenes: recoverInterruptedScenes(normalizeScenes(scenes)).scenes,
+  };
+};
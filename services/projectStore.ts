@@ -0,0 +1,91 @@
+import { ProjectSnapshot, ProjectSettings, Scene, SceneStatus } from "../types";
+import { DEFAULT_PROJECT_SETTINGS, DEFAULT_ANALYSIS_OPTIONS, DEFAULT_ANIMATIC_OPTIONS, DEFAULT_TIMELINE_OPTIONS, DEFAULT_CONTACT_SHEET_OPTIONS, DEFAULT_IMAGE_EXPORT_OPTIONS } from "../constants";
+
+const DB_NAME = "ifman-storyboard";
+const DB_VERSION = 1;
+const STORE_NAME = "sessions";
+// Single-slot storage: the app only ever resumes the most recent session.
+const CURRENT_SESSION_KEY = "current";
+
+// Helper to wrap an IDBRequest in a Promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Persists the current session (script, scenes incl. image data, logs).
+ */
+export const saveSession = async (snapshot: ProjectSnapshot): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  await requestToPromise(tx.objectStore(STORE_NAME).put(snapshot, CURRENT_SESSION_KEY));
+};
+
+/**
+ * Loads the last saved session, or null if nothing was saved yet.
+ */
+export const loadSession = async (): Promise<ProjectSnapshot | null> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, "readonly");
+  const result = await requestToPromise(tx.objectStore(STORE_NAME).get(CURRENT_SESSION_KEY));
+  return (result as ProjectSnapshot | undefined) ?? null;
+};
+
+export const clearSession = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  await requestToPromise(tx.objectStore(STORE_NAME).delete(CURRENT_SESSION_KEY));
+};
+
+/**
+ * Scenes that were mid-flight when the tab died can never finish on their own.
+ * Put them back to IDLE so the normal "pending" queue picks them up again.
+ */
+export const recoverInterruptedScenes = (scenes: Scene[]): { scenes: Scene[]; recoveredCount: number } => {
+  let recoveredCount = 0;
+  const recovered = scenes.map(s => {
+    if (s.status === SceneStatus.GENERATING || s.status === SceneStatus.RETRYING || s.status === SceneStatus.PENDING) {
+      recoveredCount++;
+      return { ...s, status: SceneStatus.IDLE };
+    }
+    return s;
+  });
+  return { scenes: recovered, recoveredCount };
+};
+
+/**
+ * Fills settings saved by older versions with the current defaults (nested option groups included).
+ */
+export const normalizeSettings = (settings: Partial<ProjectSettings>): ProjectSettings => ({
+  ...DEFAULT_PROJECT_SETTINGS,
+  ...settings,
+  analysis: { ...DEFAULT_ANALYSIS_OPTIONS, ...settings.analysis },
+  animatic: { ...DEFAULT_ANIMATIC_OPTIONS, ...settings.animatic },
+  timeline: { ...DEFAULT_TIMELINE_OPTIONS, ...settings.timeline },
+  contactSheet: { ...DEFAULT_CONTACT_SHEET_OPTIONS, ...settings.contactSheet },
+  imageExport: { ...DEFAULT_IMAGE_EXPORT_OPTIONS, ...settings.imageExport },
+});
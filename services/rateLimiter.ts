@@ -0,0 +1,85 @@
+import { DEFAULT_REQUESTS_PER_MINUTE } from "../constants";
+
+interface Bucket {
+  tokens: number;
+  lastRefill: number;
+  blockedUntil: number; // Set from 429 retry-after hints; blocks every worker using this key
+}
+
+// Burst size per key. 1 keeps requests evenly spaced, which is what free-tier quotas expect.
+const BUCKET_CAPACITY = 1;
+
+let requestsPerMinute = DEFAULT_REQUESTS_PER_MINUTE;
+const keyLimits = new Map<string, number>(); // Keys with their own budget instead of requestsPerMinute
+const buckets = new Map<string, Bucket>();
+
+// Shared by the limiter and the retry backoff
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const getBucket = (key: string): Bucket => {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = { tokens: BUCKET_CAPACITY, lastRefill: Date.now(), blockedUntil: 0 };
+    buckets.set(key, bucket);
+  }
+  return bucket;
+};
+
+const limitFor = (key: string) => keyLimits.get(key) ?? requestsPerMinute;
+
+const refill = (bucket: Bucket, rpm: number, now: number) => {
+  const perMs = rpm / 60000;
+  bucket.tokens = Math.min(BUCKET_CAPACITY, bucket.tokens + (now - bucket.lastRefill) * perMs);
+  bucket.lastRefill = now;
+};
+
+/**
+ * Sets the default per-key budget; `perKey` gives individual keys (e.g. the text model) their own.
+ */
+export const configureRateLimiter = (rpm: number, perKey: Record<string, number> = {}) => {
+  requestsPerMinute = Math.max(0.1, rpm);
+  keyLimits.clear();
+  Object.entries(perKey).forEach(([key, limit]) => keyLimits.set(key, Math.max(0.1, limit)));
+};
+
+/**
+ * Waits until a request for `key` (usually a model id) is allowed.
+ * Shared by all workers, so N concurrent workers still respect one RPM budget per model.
+ */
+export const acquireRateLimit = async (key: string): Promise<void> => {
+  const bucket = getBucket(key);
+  while (true) {
+    const now = Date.now();
+    if (now < bucket.blockedUntil) {
+      await sleep(bucket.blockedUntil - now);
+      continue;
+    }
+    const rpm = limitFor(key);
+    refill(bucket, rpm, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+    await sleep(Math.ceil((1 - bucket.tokens) / (rpm / 60000)));
+  }
+};
+
+/**
+ * Pauses every request for `key` for `ms` (e.g. after a 429 with a retry-after hint).
+ */
+export const penalizeRateLimit = (key: string, ms: number) => {
+  const bucket = getBucket(key);
+  bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + ms);
+  bucket.tokens = 0;
+};
+
+/**
+ * Parses an HTTP Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+export const parseRetryAfterHeader = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
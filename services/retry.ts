@@ -0,0 +1,41 @@
+import { ErrorCode } from "../types";
+import { acquireRateLimit, penalizeRateLimit, sleep } from "./rateLimiter";
+import { classifyError, RETRY_POLICIES } from "./errors";
+
+/**
+ * Smart Retry Wrapper with per-category policy (see RETRY_POLICIES).
+ * Every attempt goes through the shared rate limiter for `limiterKey` (the model id, TEXT_LIMITER_KEY
+ * or an HTTP image provider's key).
+ * Rate limits honour the server's retry hint and pause every worker on that model;
+ * permanent failures (permission, daily quota, safety) are thrown immediately.
+ */
+export const callWithRetry = async <T>(
+  limiterKey: string | null, // null = not throttled (local servers); failures are still retried
+  operation: () => Promise<T>,
+  rateLimitRetries = RETRY_POLICIES[ErrorCode.RATE_LIMIT].retries
+): Promise<T> => {
+  const attempts: Partial<Record<ErrorCode, number>> = {};
+  while (true) {
+    if (limiterKey) await acquireRateLimit(limiterKey);
+    try {
+      return await operation();
+    } catch (raw) {
+      const error = classifyError(raw);
+      const policy = RETRY_POLICIES[error.code];
+      const maxRetries = error.code === ErrorCode.RATE_LIMIT ? rateLimitRetries : policy.retries;
+      const attempt = attempts[error.code] ?? 0;
+      if (attempt >= maxRetries) throw error;
+      attempts[error.code] = attempt + 1;
+
+      // Prefer the server's retry hint; otherwise exponential backoff (15s -> 30s -> 60s for rate limits)
+      const waitMs = error.retryAfterMs ?? policy.baseDelayMs * 2 ** attempt;
+      console.warn(`${error.code} on ${limiterKey ?? 'request'}. Waiting ${waitMs/1000}s before retry... (${maxRetries - attempt} left)`);
+      if (error.code === ErrorCode.RATE_LIMIT && limiterKey) {
+        // Blocks all workers using this model, not just this one
+        penalizeRateLimit(limiterKey, waitMs);
+      } else {
+        await sleep(waitMs);
+      }
+    }
+  }
+};
@@ -0,0 +1,29 @@
+import { StyleProfile } from "../types";
+import { DEFAULT_STYLE_PROFILES, STYLE_PROFILES_STORAGE_KEY } from "../constants";
+
+/**
+ * Loads the user's style profile library. Falls back to the built-in profiles
+ * when nothing is stored yet or the stored value is unreadable.
+ */
+export const loadStyleProfiles = (): StyleProfile[] => {
+  try {
+    const raw = localStorage.getItem(STYLE_PROFILES_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : DEFAULT_STYLE_PROFILES;
+  } catch (error) {
+    console.error("Style profile load failed:", error);
+    return DEFAULT_STYLE_PROFILES;
+  }
+};
+
+export const saveStyleProfiles = (profiles: StyleProfile[]) => {
+  try {
+    localStorage.setItem(STYLE_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error("Style profile save failed:", error);
+  }
+};
+
+// The project's profile, or the first one if it was deleted from this browser's library
+export const resolveStyleProfile = (profiles: StyleProfile[], id: string): StyleProfile =>
+  profiles.find(p => p.id === id) ?? profiles[0] ?? DEFAULT_STYLE_PROFILES[0];
@@ -7,17 +7,109 @@ export enum SceneStatus {
   RETRYING = 'RETRYING'
 }
 
+// Outcome of one vision QA check against the character/style rules
+export interface QaCheckResult {
+  id: string;
+  label: string;
+  passed: boolean;
+  note?: string;
+}
+
+export interface QaResult {
+  score: number; // 0..1, share of applicable checks that passed
+  checks: QaCheckResult[];
+  checkedAt: string; // ISO timestamp
+}
+
+// One generation result for a scene. Regenerating adds a take instead of overwriting.
+export interface SceneTake {
+  id: string;
+  imageUrl: string; // data URL
+  prompt: string; // Exact prompt sent to the model
+  model: string; // Model that produced the image
+  createdAt: string; // ISO timestamp
+  styleProfileId?: string; // Style profile the prompt was built with
+  styleProfileName?: string; // Kept so the name survives the profile being renamed or deleted
+  qa?: QaResult; // Vision QA of this take, if it ran
+}
+
+// Failure categories attached to scenes (see services/errors.ts for retry policies)
+export enum ErrorCode {
+  RATE_LIMIT = 'RATE_LIMIT',
+  QUOTA_EXHAUSTED = 'QUOTA_EXHAUSTED', // Daily quota; waiting minutes will not help
+  SAFETY_BLOCK = 'SAFETY_BLOCK',
+  PERMISSION = 'PERMISSION',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  NETWORK = 'NETWORK',
+  EMPTY_RESPONSE = 'EMPTY_RESPONSE',
+  MALFORMED_JSON = 'MALFORMED_JSON',
+  UNKNOWN = 'UNKNOWN'
+}
+
+export type ShotType = 'extreme-wide' | 'wide' | 'medium' | 'close-up' | 'extreme-close-up' | 'insert' | 'over-the-shoulder';
+export type CameraAngle = 'eye-level' | 'high' | 'low' | 'birds-eye' | 'dutch';
+
+// Languages a script (and its captions) can be written in
+export type ScriptLanguage = 'ko' | 'en' | 'ja';
+// Language for text drawn inside images; 'none' forbids text entirely
+export type ImageTextLanguage = ScriptLanguage | 'none';
+
 export interface Scene {
-  id: number;
-  scriptSegment: string;
+  id: number; // Display number (1..N); renumbered after split/merge/insert/delete/reorder
+  uid: string; // Stable identity that survives renumbering (React keys)
+  scriptSegment: string; // Always in the script's own language
+  caption?: string; // scriptSegment translated into AnalysisOptions.captionLanguage, for subtitles
   englishPrompt: string;
-  mainCharacterVisible: boolean; // True if Ifman should appear, False if it's another subject (e.g. Steve Jobs, object)
-  imageUrl?: string;
+  originalPrompt?: string; // Set when englishPrompt was auto-rewritten after a safety block
+  safetyRewriteReason?: string; // Block reason that triggered the rewrite
+  characterIds: string[]; // Character library entries that appear in the shot (empty for object/other-subject shots)
+  shotType: ShotType;
+  cameraAngle: CameraAngle;
+  location: string; // Where the shot takes place (free text, may be empty)
+  durationSec: number; // Time on screen; estimated from narration length, editable
+  startSec?: number; // Start in the recorded narration, set by importing its SRT/transcript
+  narrationScore?: number; // 0..1 text similarity of that alignment; low values are flagged
+  takes: SceneTake[]; // Every generated image, oldest first
+  selectedTakeId?: string; // Winning take used for display/exports (defaults to the newest)
   status: SceneStatus;
   errorMsg?: string;
+  errorCode?: ErrorCode;
   retryCount: number;
 }
 
+// Canonical character image uploaded by the user, sent to image models that accept image input
+export interface ReferenceImage {
+  id: string;
+  name: string;
+  imageUrl: string; // data URL (downscaled on upload)
+}
+
+// Recurring cast member. Scenes reference characters by id so every shot uses the same definition.
+export interface Character {
+  id: string; // Short slug used in analysis output (e.g. "ifman", "doctor")
+  name: string;
+  description: string; // Visual definition injected into the image prompt
+  referenceImages: ReferenceImage[];
+}
+
+// Named look of a channel (art style + negative constraints). Stored locally, picked per project.
+export interface StyleProfile {
+  id: string;
+  name: string;
+  artStyle: string;
+  negativePrompt: string;
+}
+
+// Result of generateSceneImage, recorded as a SceneTake
+export interface GeneratedImage {
+  imageUrl: string;
+  prompt: string;
+  model: string;
+}
+
+// Fields the user can change from the SceneCard edit mode
+export type SceneEdit = Pick<Scene, 'scriptSegment' | 'caption' | 'englishPrompt' | 'characterIds' | 'shotType' | 'cameraAngle' | 'location' | 'durationSec' | 'startSec'>;
+
 export interface LogEntry {
   id: string;
   timestamp: string;
@@ -25,6 +117,103 @@ export interface LogEntry {
   type: 'info' | 'success' | 'error' | 'warning';
 }
 
+// One step of the Google image model fallback chain
+export interface ModelChainEntry {
+  model: string;
+  enabled: boolean;
+  retries: number; // Rate-limit retries before falling through to the next model
+}
+
+// How finely analyzeScript cuts the script into scenes
+export type AnalysisGranularity = 'paragraph' | 'sentence' | 'clause';
+
+export interface AnalysisOptions {
+  language: ScriptLanguage | 'auto'; // 'auto' = detected from the script text
+  captionLanguage: ScriptLanguage | 'none'; // Translated caption per scene
+  granularity: AnalysisGranularity;
+  targetSceneCount: number; // 0 = let the granularity decide
+  maxSceneCount: number; // Hard cap, never above MAX_SCENES
+  insertShots: boolean; // Close-ups of hands, objects, screens between story beats
+  reactionShots: boolean; // Listener/bystander reactions between dialogue
+}
+
+// Which text is burned into exported video/images as a subtitle
+export type CaptionSource = 'none' | 'script' | 'caption';
+export type AnimaticResolution = '720p' | '1080p';
+
+export interface AnimaticOptions {
+  resolution: AnimaticResolution;
+  fps: number;
+  kenBurns: boolean; // Slow pan/zoom over each still
+  crossfadeSec: number; // 0 = hard cuts
+  captions: CaptionSource; // 'caption' falls back to scriptSegment when a scene has no caption
+}
+
+// Timed exports (SRT / EDL / FCPXML)
+export interface TimelineOptions {
+  fps: number;
+  totalRuntimeSec: number; // 0 = use the scenes' own durations; otherwise they are scaled to fit
+  captions: Exclude<CaptionSource, 'none'>; // Text of the SRT cues
+}
+
+// Post-processing applied to every exported image (ZIP, single download)
+export type ExportResolution = 'original' | '1080p' | 'vertical' | '4k';
+export type ExportImageFormat = 'original' | 'png' | 'jpeg' | 'webp';
+
+export interface ImageExportOptions {
+  resolution: ExportResolution; // Targets fit the image inside the frame and letterbox the rest
+  format: ExportImageFormat; // 'original' keeps whatever the model returned
+  quality: number; // 0..1, JPEG/WebP only
+  captions: CaptionSource; // Subtitle burned into the image
+}
+
+// Printable storyboard (contact sheet) as HTML or PDF
+export type PageOrientation = 'landscape' | 'portrait';
+
+export interface ContactSheetOptions {
+  columns: number;
+  rows: number;
+  orientation: PageOrientation; // A4
+  showPrompt: boolean; // Print the englishPrompt under each frame
+}
+
+// Per-project settings (saved with the session and inside project bundles)
+export interface ProjectSettings {
+  title: string;
+  styleProfileId: string;
+  promptTemplate: string; // See utils/promptTemplate.ts
+  analysis: AnalysisOptions;
+  imageTextLanguage: ImageTextLanguage; // Rule for signs/screens/labels inside generated images
+  animatic: AnimaticOptions;
+  timeline: TimelineOptions;
+  contactSheet: ContactSheetOptions;
+  imageExport: ImageExportOptions;
+  imageProviderId: string;
+  endpointUrl: string; // Only used by HTTP providers (local SD, OpenAI-compatible)
+  endpointModel: string;
+  modelChain: ModelChainEntry[];
+  requestsPerMinute: number; // Per-model budget shared by all workers
+  textRequestsPerMinute: number; // Budget of the Gemini text model (analysis, rewrites, QA)
+  concurrency: number; // Number of scenes generated in parallel
+  autoSafetyRewrite: boolean; // Rewrite + retry once when a scene is safety-blocked
+  qaEnabled: boolean; // Run vision QA on every new take
+  qaThreshold: number; // 0..1; takes below it are re-queued
+  qaMaxRegenerations: number; // Re-queue limit per scene and run
+}
+
+// Everything needed to resume a session after a reload (stored in IndexedDB)
+export interface ProjectSnapshot {
+  version: number;
+  savedAt: string; // ISO timestamp
+  script: string;
+  analyzedScript?: string; // Script version the scenes were analysed from; absent in older sessions
+  settings: ProjectSettings;
+  characters: Character[];
+  scenes: Scene[];
+  logs: LogEntry[];
+  selectedIds: number[];
+}
+
 export interface GenerationConfig {
   apiKey: string;
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { Scene, CaptionSource } from '../types';
+import { CAPTION_FONT_FAMILY, CAPTION_FONT_RATIO, CAPTION_MAX_LINES } from '../constants';
+
+// Text shown as the subtitle of a scene for the given source ('' = no subtitle)
+export const getCaptionText = (scene: Scene, source: CaptionSource): string => {
+  switch (source) {
+    case 'none': return '';
+    case 'script': return scene.scriptSegment.trim();
+    case 'caption': return (scene.caption || scene.scriptSegment).trim();
+  }
+};
+
+// Word wrap that also breaks inside words, so scripts without spaces (Japanese) still fit
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  const push = (piece: string) => {
+    if (ctx.measureText(current + piece).width <= maxWidth) {
+      current += piece;
+    } else if (current.trim()) {
+      lines.push(current.trim());
+      current = piece.trimStart();
+    } else {
+      current = piece.trimStart();
+    }
+  };
+  for (const word of text.match(/\S+\s*/g) ?? []) {
+    if (ctx.measureText(word.trim()).width <= maxWidth) push(word);
+    else Array.from(word).forEach(push);
+  }
+  if (current.trim()) lines.push(current.trim());
+  return lines;
+};
+
+/**
+ * Wraps text to `maxWidth` in the context's current font, keeping at most `maxLines` lines;
+ * cut-off text ends in an ellipsis.
+ */
+export const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines = wrapText(ctx, text, maxWidth);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, -1)}…`;
+  return kept;
+};
+
+/**
+ * Burns a subtitle into the bottom of a canvas: centered, wrapped lines on a translucent band.
+ */
+export const drawCaption = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  if (!text) return;
+  const fontSize = Math.round(Math.min(width, height) * CAPTION_FONT_RATIO); // Short side, so vertical frames stay readable
+  const lineHeight = fontSize * 1.3;
+  const padding = fontSize * 0.5;
+
+  ctx.save();
+  ctx.font = `bold ${fontSize}px ${CAPTION_FONT_FAMILY}`;
+  const lines = wrapLines(ctx, text, width * 0.86, CAPTION_MAX_LINES);
+
+  const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 2;
+  const top = height - boxHeight - height * 0.05;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect((width - boxWidth) / 2, top, boxWidth, boxHeight);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, top + padding + lineHeight * (i + 0.5)));
+  ctx.restore();
+};
@@ -0,0 +1,37 @@
+import { Character, ReferenceImage, Scene } from '../types';
+import { DEFAULT_CHARACTERS, IFMAN_CHARACTER_ID } from '../constants';
+
+// Shape of sessions/bundles saved before the character library (Ifman references at project level)
+interface LegacyCharacterSource {
+  characters?: Character[];
+  referenceImages?: ReferenceImage[];
+}
+
+/**
+ * Returns the project's character library, upgrading older saves.
+ * Project-level reference images from before the library move onto the Ifman entry.
+ */
+export const normalizeCharacters = ({ characters, referenceImages }: LegacyCharacterSource): Character[] => {
+  if (characters) return characters; // May be empty: every entry, Ifman included, can be deleted
+  return DEFAULT_CHARACTERS.map(c =>
+    c.id === IFMAN_CHARACTER_ID && referenceImages?.length ? { ...c, referenceImages } : c
+  );
+};
+
+/**
+ * Turns a display name into an id that is unique within `existing` ("The Doctor" -> "the-doctor").
+ */
+export const createCharacterId = (name: string, existing: Character[]): string => {
+  const base = name.toLowerCase().trim().replace(/[^a-z0-9가-힣]+/g, '-').replace(/^-+|-+$/g, '') || 'character';
+  let id = base;
+  for (let n = 2; existing.some(c => c.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+// Library entries listed on the scene, in library order. Ids of deleted characters are skipped.
+export const getSceneCharacters = (scene: Scene, characters: Character[]): Character[] =>
+  characters.filter(c => scene.characterIds.includes(c.id));
+
+// False once Ifman is deleted from the library, even for scenes that still list its id
+export const isIfmanVisible = (scene: Scene, characters: Character[]): boolean =>
+  getSceneCharacters(scene, characters).some(c => c.id === IFMAN_CHARACTER_ID);
@@ -0,0 +1,19 @@
+import { ScriptLanguage } from '../types';
+import { SCRIPT_LANGUAGES, MIN_SCENE_DURATION_SEC } from '../constants';
+import { detectScriptLanguage } from './languageUtils';
+
+/**
+ * Estimates how long the narration of `text` takes, in seconds (one decimal).
+ * Only letters/digits count, so spacing and punctuation do not change the estimate.
+ * The narration speed depends on the language, detected from the text unless given.
+ */
+export const estimateNarrationSeconds = (text: string, language: ScriptLanguage = detectScriptLanguage(text)): number => {
+  const spoken = text.replace(/[\s\p{P}\p{S}]/gu, '').length;
+  return Math.max(MIN_SCENE_DURATION_SEC, Math.round((spoken / SCRIPT_LANGUAGES[language].charsPerSecond) * 10) / 10);
+};
+
+export const formatDuration = (seconds: number): string => `${seconds.toFixed(1)}초`;
+
+// Position in the narration, e.g. "1:05.3"
+export const formatTimestamp = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
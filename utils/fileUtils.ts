@@ -0,0 +1,32 @@
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp',
+};
+
+// "scene_001" style base name used by every export (ZIP, bundle, single download)
+export const sceneFileBase = (id: number): string => `scene_${id.toString().padStart(3, '0')}`;
+
+// Name of a scene's selected take inside the image ZIP's images/ folder (timeline exports point at it)
+export const exportedImageName = (id: number, extension: string): string => `${sceneFileBase(id)}.${extension}`;
+
+export const getDataUrlMimeType = (dataUrl: string): string => {
+  const match = /^data:([^;,]+)/.exec(dataUrl);
+  return match ? match[1] : 'application/octet-stream';
+};
+
+export const extensionForMimeType = (mimeType: string): string => MIME_EXTENSIONS[mimeType] || 'png';
+
+export const mimeTypeForFileName = (fileName: string): string => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  const entry = Object.entries(MIME_EXTENSIONS).find(([, e]) => e === ext || (ext === 'jpeg' && e === 'jpg'));
+  return entry ? entry[0] : 'image/png';
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const res = await fetch(dataUrl);
+  return res.blob();
+};
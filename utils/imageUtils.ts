@@ -0,0 +1,28 @@
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("이미지를 불러올 수 없습니다."));
+    img.src = src;
+  });
+
+/**
+ * Reads an uploaded image and downscales it so its longest side is at most `maxSize` px.
+ * Keeps reference payloads small enough to send with every request.
+ */
+export const fileToResizedDataUrl = async (file: File, maxSize: number): Promise<string> => {
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(objectUrl);
+    const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("캔버스를 사용할 수 없습니다.");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
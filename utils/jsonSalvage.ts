@@ -0,0 +1,45 @@
+/**
+ * Recovers the complete objects of the array stored under `key` from JSON text that may be
+ * truncated (e.g. the model hit its output limit mid-answer). Incomplete trailing items are dropped.
+ */
+export const salvageArrayItems = (text: string, key: string): any[] => {
+  const keyIndex = text.indexOf(`"${key}"`);
+  if (keyIndex < 0) return [];
+  const arrayStart = text.indexOf('[', keyIndex);
+  if (arrayStart < 0) return [];
+
+  const items: any[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  for (let i = arrayStart + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0 && itemStart >= 0) {
+        try {
+          items.push(JSON.parse(text.slice(itemStart, i + 1)));
+        } catch {
+          // Skip an item that is not valid JSON on its own; later ones may still be fine
+        }
+        itemStart = -1;
+      }
+    } else if (ch === ']' && depth === 0) {
+      break;
+    }
+  }
+  return items;
+};
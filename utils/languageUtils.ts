@@ -0,0 +1,22 @@
+import { ScriptLanguage } from '../types';
+import { DEFAULT_SCRIPT_LANGUAGE } from '../constants';
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) ?? []).length;
+
+/**
+ * Guesses the script language from its letters. Kanji count as Japanese only next to kana,
+ * and Latin letters are weighted down so English terms inside a Korean script don't flip it.
+ */
+export const detectScriptLanguage = (text: string): ScriptLanguage => {
+  const kana = countMatches(text, /[\p{Script=Hiragana}\p{Script=Katakana}]/gu);
+  const scores: Record<ScriptLanguage, number> = {
+    ko: countMatches(text, /\p{Script=Hangul}/gu),
+    ja: kana > 0 ? kana + countMatches(text, /\p{Script=Han}/gu) : 0,
+    en: countMatches(text, /\p{Script=Latin}/gu) / 3,
+  };
+  const [best, score] = (Object.entries(scores) as [ScriptLanguage, number][]).sort((a, b) => b[1] - a[1])[0];
+  return score > 0 ? best : DEFAULT_SCRIPT_LANGUAGE;
+};
+
+export const resolveScriptLanguage = (setting: ScriptLanguage | 'auto', text: string): ScriptLanguage =>
+  setting === 'auto' ? detectScriptLanguage(text) : setting;
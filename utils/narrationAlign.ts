@@ -0,0 +1,149 @@
+import { Scene } from '../types';
+import { NARRATION_MATCH_THRESHOLD, NARRATION_SEARCH_WINDOW } from '../constants';
+
+export interface NarrationCue {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+// Proposed timing for one scene; edited in the review before it is written to the scenes
+export interface SceneAlignment {
+  uid: string;
+  startSec: number;
+  durationSec: number;
+  score: number; // 0..1 text similarity of the matched narration
+  matchedText: string; // Narration the scene was matched to ('' when nothing matched)
+}
+
+// SRT "00:01:02,500"; WebVTT "00:01:02.500" or, without hours, "01:02.500"
+const SRT_TIME = /(?:(\d{1,2}):)?(\d{2}):(\d{2})[,.](\d{1,3})/;
+// Anything after the end time (WebVTT cue settings such as "align:start") is ignored
+const SRT_RANGE = new RegExp(`${SRT_TIME.source}\\s*-->\\s*${SRT_TIME.source}`);
+// WebVTT blocks that are not cues
+const VTT_NON_CUE = /^(WEBVTT|NOTE|STYLE|REGION)\b/;
+// "[00:01:23] text", "(1:23.5) text", "01:23 - text"
+const TRANSCRIPT_LINE = /^\s*[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)[\])]?\s*[-–:]?\s*(.*)$/;
+
+const toSeconds = (h: string | undefined, m: string, s: string, ms: string) =>
+  Number(h ?? 0) * 3600 + Number(m) * 60 + Number(s) + Number(ms.padEnd(3, '0')) / 1000;
+
+const parseClock = (clock: string): number => {
+  const [main, fraction = '0'] = clock.split(/[.,]/);
+  const parts = main.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+};
+
+const parseSrt = (text: string): NarrationCue[] =>
+  text.split(/\r?\n\s*\r?\n/).flatMap(block => {
+    const lines = block.split(/\r?\n/);
+    if (VTT_NON_CUE.test(lines[0].trim())) return [];
+    const timeIndex = lines.findIndex(line => SRT_RANGE.test(line));
+    if (timeIndex < 0) return [];
+    const m = SRT_RANGE.exec(lines[timeIndex])!;
+    const cueText = lines.slice(timeIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+    return cueText ? [{ start: toSeconds(m[1], m[2], m[3], m[4]), end: toSeconds(m[5], m[6], m[7], m[8]), text: cueText }] : [];
+  });
+
+// Timestamped transcript: each line starts at its stamp and lasts until the next one
+const parseTranscript = (text: string): NarrationCue[] => {
+  const stamped = text.split(/\r?\n/).flatMap(line => {
+    const m = TRANSCRIPT_LINE.exec(line);
+    return m && m[2].trim() ? [{ start: parseClock(m[1]), text: m[2].trim() }] : [];
+  });
+  return stamped.map((cue, i) => ({
+    ...cue,
+    // The last line gets a rough reading time since nothing marks its end
+    end: stamped[i + 1]?.start ?? cue.start + Math.max(2, cue.text.length / 6),
+  }));
+};
+
+/**
+ * Reads an SRT/WebVTT file or a plain transcript with a timestamp at the start of each line.
+ */
+export const parseNarrationCues = (text: string): NarrationCue[] => {
+  const cues = SRT_RANGE.test(text) ? parseSrt(text) : parseTranscript(text);
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+// Letters only, so punctuation/spacing differences between script and subtitles don't matter
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+const bigrams = (text: string): Map<string, number> => {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+};
+
+// Dice coefficient over character bigrams (1 = identical)
+const similarity = (a: Map<string, number>, aLength: number, b: string): number => {
+  if (aLength < 2 || b.length < 2) return 0;
+  let shared = 0;
+  const counts = new Map(a);
+  for (let i = 0; i < b.length - 1; i++) {
+    const gram = b.slice(i, i + 2);
+    const left = counts.get(gram) ?? 0;
+    if (left > 0) {
+      shared++;
+      counts.set(gram, left - 1);
+    }
+  }
+  return (2 * shared) / ((aLength - 1) + (b.length - 1));
+};
+
+/**
+ * Aligns narration cues to scenes in order. The cue text is flattened to letters with a time per
+ * letter; each scene's scriptSegment is then searched a little ahead of the previous match.
+ * Scenes that match poorly (insert shots, rewritten lines) start where the previous match stops speaking.
+ */
+export const alignNarration = (scenes: Scene[], cues: NarrationCue[]): SceneAlignment[] => {
+  let transcript = '';
+  const times: number[] = []; // Start time of every transcript letter
+  const ends: number[] = [];
+  const cueOf: number[] = []; // Cue every transcript letter came from
+  cues.forEach((cue, cueIndex) => {
+    const letters = Array.from(normalize(cue.text));
+    letters.forEach((letter, i) => {
+      transcript += letter;
+      times.push(cue.start + ((cue.end - cue.start) * i) / letters.length);
+      ends.push(cue.start + ((cue.end - cue.start) * (i + 1)) / letters.length);
+      cueOf.push(cueIndex);
+    });
+  });
+  // Where the narration matched so far stops speaking (letters [0, index) consumed)
+  const spokenUntil = (index: number) => (index > 0 ? ends[index - 1] : 0);
+
+  let cursor = 0;
+  const matches = scenes.map(scene => {
+    const segment = normalize(scene.scriptSegment);
+    const grams = bigrams(segment);
+    let best = { position: cursor, score: 0 };
+    const lastStart = Math.min(transcript.length - 1, cursor + Math.max(NARRATION_SEARCH_WINDOW, segment.length * 3));
+    for (let position = cursor; position <= lastStart; position++) {
+      const score = similarity(grams, segment.length, transcript.slice(position, position + segment.length));
+      if (score > best.score) best = { position, score };
+    }
+    const matched = best.score >= NARRATION_MATCH_THRESHOLD;
+    const startSec = matched ? times[best.position] : spokenUntil(cursor);
+    if (matched) cursor = Math.min(transcript.length, best.position + segment.length);
+    return {
+      uid: scene.uid,
+      startSec: Math.round(startSec * 10) / 10,
+      score: Math.round(best.score * 100) / 100,
+      matchedText: matched
+        ? Array.from(new Set(cueOf.slice(best.position, best.position + segment.length))).map(i => cues[i].text).join(' ')
+        : '',
+      end: spokenUntil(cursor),
+    };
+  });
+
+  // Each scene lasts until the next one starts; the last one until its narration ends
+  return matches.map(({ end, ...match }, i) => {
+    const nextStart = i + 1 < matches.length ? matches[i + 1].startSec : end;
+    return { ...match, durationSec: Math.max(0.1, Math.round((nextStart - match.startSec) * 10) / 10) };
+  });
+};
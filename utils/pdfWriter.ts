@@ -0,0 +1,61 @@
+// Smallest PDF that holds one full-page JPEG per page; text is already drawn into the images,
+// so no fonts (and no Korean font subsetting) are needed.
+
+export interface PdfPageImage {
+  jpeg: Uint8Array;
+  width: number; // Pixels
+  height: number;
+}
+
+const MM_TO_PT = 72 / 25.4;
+
+// Text strings as UTF-16BE hex, so titles in any script survive
+const pdfText = (text: string): string => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+};
+
+/**
+ * Builds a PDF in which every page is one image stretched over a page of the given size.
+ */
+export const buildImagePdf = (pages: PdfPageImage[], pageMm: { width: number; height: number }, title: string): Blob => {
+  const encoder = new TextEncoder();
+  const width = (pageMm.width * MM_TO_PT).toFixed(2);
+  const height = (pageMm.height * MM_TO_PT).toFixed(2);
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = []; // Byte offset of every object, in object-number order
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string) => {
+    offsets[id - 1] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  // 1 catalog, 2 page tree, 3 info, then page / content / image objects per page
+  const pageId = (i: number) => 4 + i * 3;
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, `<< /Title ${pdfText(title)} /Producer (ifman storyboard) >>`);
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+    object(id + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    offsets[id + 1] = length;
+    write(`${id + 2} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  write(offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join(''));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,151 @@
+import { Scene, Character, StyleProfile, ImageTextLanguage } from '../types';
+import { getSceneCharacters, isIfmanVisible } from './characterUtils';
+import { SHOT_TYPES, CAMERA_ANGLES, SCRIPT_LANGUAGES } from '../constants';
+
+/**
+ * Minimal template language for the image prompt:
+ *   {{name}}                               inserts a variable
+ *   {{#if name}} ... {{else}} ... {{/if}}  conditional on a flag (nestable)
+ */
+
+// Variables and flags the template may use (shown as help text in the editor)
+export const PROMPT_VARIABLES: Record<string, string> = {
+  'scene.englishPrompt': '장면 프롬프트 (영문)',
+  'scene.scriptSegment': '대사 원문',
+  'scene.shotType': '샷 종류 (영문 표현)',
+  'scene.cameraAngle': '카메라 앵글 (영문 표현)',
+  'scene.location': '장소/배경',
+  'character': '등장 캐릭터 정의 + 미등장 캐릭터 금지 지시',
+  'style': '스타일 프로필의 화풍',
+  'negative': '스타일 프로필의 금지 사항',
+  'textRule': '이미지 속 글자 언어 규칙 (프로젝트 설정)',
+};
+
+export const PROMPT_FLAGS: Record<string, string> = {
+  'scene.mainCharacterVisible': '이프맨이 등장하는 장면',
+  'hasCharacters': '라이브러리 캐릭터가 하나라도 등장',
+  'hasLocation': '장소가 입력된 장면',
+  'isRetry': '오류 재시도 (단순화 요청)',
+};
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'var'; name: string }
+  | { kind: 'if'; flag: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface ParseResult {
+  nodes: TemplateNode[];
+  errors: string[];
+}
+
+const TAG_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+
+const parseTemplate = (template: string): ParseResult => {
+  const errors: string[] = [];
+  const root: TemplateNode[] = [];
+  // Open {{#if}} blocks; `target` is the branch currently being filled
+  const stack: { node: Extract<TemplateNode, { kind: 'if' }>; target: TemplateNode[] }[] = [];
+  const current = () => stack.length ? stack[stack.length - 1].target : root;
+
+  let last = 0;
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(template)) !== null) {
+    if (match.index > last) current().push({ kind: 'text', text: template.slice(last, match.index) });
+    last = match.index + match[0].length;
+    const tag = match[1];
+
+    if (tag.startsWith('#if')) {
+      const flag = tag.slice(3).trim();
+      if (!(flag in PROMPT_FLAGS)) errors.push(`알 수 없는 조건: {{#if ${flag}}}`);
+      const node: Extract<TemplateNode, { kind: 'if' }> = { kind: 'if', flag, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, target: node.then });
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.target === open.node.otherwise) errors.push('짝이 맞지 않는 {{else}}');
+      else open.target = open.node.otherwise;
+    } else if (tag === '/if') {
+      if (!stack.pop()) errors.push('짝이 맞지 않는 {{/if}}');
+    } else {
+      if (!(tag in PROMPT_VARIABLES)) errors.push(`알 수 없는 변수: {{${tag}}}`);
+      current().push({ kind: 'var', name: tag });
+    }
+  }
+  if (last < template.length) current().push({ kind: 'text', text: template.slice(last) });
+  if (stack.length > 0) errors.push(`닫히지 않은 {{#if}} ${stack.length}개`);
+  return { nodes: root, errors };
+};
+
+/**
+ * Returns human-readable problems with the template (empty when it can be saved).
+ */
+export const validatePromptTemplate = (template: string): string[] => {
+  const { errors } = parseTemplate(template);
+  if (!/\{\{\s*scene\.englishPrompt\s*\}\}/.test(template)) {
+    errors.push('{{scene.englishPrompt}}가 없으면 장면 내용이 전달되지 않습니다.');
+  }
+  return errors;
+};
+
+const renderNodes = (nodes: TemplateNode[], vars: Record<string, string>, flags: Record<string, boolean>): string =>
+  nodes.map(node => {
+    switch (node.kind) {
+      case 'text': return node.text;
+      case 'var': return vars[node.name] ?? '';
+      case 'if': return renderNodes(flags[node.flag] ? node.then : node.otherwise, vars, flags);
+    }
+  }).join('');
+
+export const renderPromptTemplate = (template: string, vars: Record<string, string>, flags: Record<string, boolean>): string =>
+  renderNodes(parseTemplate(template).nodes, vars, flags).trim();
+
+// Everything besides the scene that shapes its prompt
+export interface ScenePromptOptions {
+  characters: Character[]; // Whole library; only the scene's entries are drawn
+  style: StyleProfile;
+  template: string;
+  imageTextLanguage: ImageTextLanguage;
+}
+
+/**
+ * Instruction for signs/screens/labels inside the image; also used as the QA text rule.
+ */
+export const describeImageTextRule = (language: ImageTextLanguage): string =>
+  language === 'none'
+    ? 'Do NOT render any text, letters or numbers (signs, screens and labels stay blank).'
+    : `Avoid generating text if possible. If text is required for context, write it in ${SCRIPT_LANGUAGES[language].name} only, never in another language.`;
+
+const buildCharacterBlock = (scene: Scene, characters: Character[]): string => {
+  const sceneCharacters = getSceneCharacters(scene, characters);
+  const absentCharacters = characters.filter(c => !sceneCharacters.includes(c));
+  const definitions = sceneCharacters.map(c => `CHARACTER '${c.name}': ${c.description}`);
+  const instructions = [
+    ...(absentCharacters.length > 0 ? [`- Do NOT draw ${absentCharacters.map(c => `'${c.name}'`).join(', ')}.`] : []),
+    '- Draw any other person with NORMAL CARTOON EYES.',
+    '- ABSOLUTELY NO TEXT/LETTERS ON THEIR FACES.',
+  ];
+  return [...definitions, 'CRITICAL INSTRUCTION:', ...instructions].join('\n');
+};
+
+/**
+ * Renders the exact prompt sent to the image model for a scene.
+ * Used both for generation and for the SceneCard "final prompt" view.
+ */
+export const buildScenePrompt = (scene: Scene, isRetry: boolean, { characters, style, template, imageTextLanguage }: ScenePromptOptions): string =>
+  renderPromptTemplate(template, {
+    'scene.englishPrompt': scene.englishPrompt,
+    'scene.scriptSegment': scene.scriptSegment,
+    'scene.shotType': SHOT_TYPES[scene.shotType]?.prompt ?? scene.shotType,
+    'scene.cameraAngle': CAMERA_ANGLES[scene.cameraAngle]?.prompt ?? scene.cameraAngle,
+    'scene.location': scene.location,
+    'character': buildCharacterBlock(scene, characters),
+    'style': style.artStyle,
+    'negative': style.negativePrompt,
+    'textRule': describeImageTextRule(imageTextLanguage),
+  }, {
+    'scene.mainCharacterVisible': isIfmanVisible(scene, characters),
+    'hasCharacters': getSceneCharacters(scene, characters).length > 0,
+    'hasLocation': scene.location.trim().length > 0,
+    'isRetry': isRetry,
+  });
@@ -0,0 +1,151 @@
+import { Scene, SceneStatus } from '../types';
+import { createTake, getSelectedTake } from './takeUtils';
+import { IFMAN_CHARACTER_ID } from '../constants';
+import { estimateNarrationSeconds } from './durationUtils';
+
+export type SceneOperation = 'split' | 'mergeNext' | 'insertAfter' | 'delete';
+
+export interface SceneOpResult {
+  scenes: Scene[];
+  // Old scene id -> new scene id, for scenes that survived the operation (used to remap selection)
+  idMap: Map<number, number>;
+}
+
+export const createSceneUid = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+
+// Shape of scenes saved by older versions (no uid, single imageUrl instead of takes, Ifman flag instead of character ids,
+// no shot metadata)
+type LegacyScene = Omit<Scene, 'uid' | 'takes' | 'characterIds' | 'shotType' | 'cameraAngle' | 'location' | 'durationSec'> & Partial<Pick<Scene, 'shotType' | 'cameraAngle' | 'location' | 'durationSec'>> & {
+  uid?: string;
+  takes?: Scene['takes'];
+  imageUrl?: string;
+  characterIds?: string[];
+  mainCharacterVisible?: boolean;
+};
+
+/**
+ * Upgrades scenes from older sessions/bundles to the current Scene shape.
+ */
+export const normalizeScenes = (scenes: LegacyScene[]): Scene[] =>
+  scenes.map(({ imageUrl, mainCharacterVisible, ...s }) => ({
+    ...s,
+    uid: s.uid || createSceneUid(),
+    characterIds: s.characterIds ?? (mainCharacterVisible === false ? [] : [IFMAN_CHARACTER_ID]),
+    shotType: s.shotType ?? 'medium',
+    cameraAngle: s.cameraAngle ?? 'eye-level',
+    location: s.location ?? '',
+    durationSec: s.durationSec ?? estimateNarrationSeconds(s.scriptSegment),
+    takes: s.takes ?? (imageUrl ? [createTake(imageUrl, s.englishPrompt, 'unknown')] : []),
+  }));
+
+/**
+ * Reassigns ids 1..N by position so numbering (selection, scene_###.png, reports) stays gapless.
+ * Scenes created by an operation carry id 0 and are not part of the id map.
+ */
+export const renumberScenes = (scenes: Scene[]): SceneOpResult => {
+  const idMap = new Map<number, number>();
+  const renumbered = scenes.map((s, index) => {
+    if (s.id > 0 && !idMap.has(s.id)) idMap.set(s.id, index + 1);
+    return s.id === index + 1 ? s : { ...s, id: index + 1 };
+  });
+  return { scenes: renumbered, idMap };
+};
+
+const createBlankScene = (template?: Scene): Scene => ({
+  id: 0,
+  uid: createSceneUid(),
+  scriptSegment: '',
+  englishPrompt: '',
+  characterIds: template ? [...template.characterIds] : [IFMAN_CHARACTER_ID],
+  shotType: template?.shotType ?? 'medium',
+  cameraAngle: template?.cameraAngle ?? 'eye-level',
+  location: template?.location ?? '',
+  durationSec: estimateNarrationSeconds(''),
+  takes: [],
+  status: SceneStatus.IDLE,
+  retryCount: 0,
+});
+
+// Splits text near its middle, preferring a sentence end, then any whitespace
+const splitTextInHalf = (text: string): [string, string] => {
+  const trimmed = text.trim();
+  if (trimmed.length < 2) return [trimmed, ''];
+  const middle = Math.floor(trimmed.length / 2);
+  const candidates = [/[.!?。？！]\s+/g, /\s+/g];
+  for (const pattern of candidates) {
+    let best = -1;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(trimmed)) !== null) {
+      const cut = match.index + match[0].length;
+      if (best < 0 || Math.abs(cut - middle) < Math.abs(best - middle)) best = cut;
+    }
+    if (best > 0 && best < trimmed.length) {
+      return [trimmed.slice(0, best).trim(), trimmed.slice(best).trim()];
+    }
+  }
+  return [trimmed.slice(0, middle), trimmed.slice(middle)];
+};
+
+/**
+ * Applies a single-scene structural operation.
+ * The original scene keeps its image; newly created halves/inserts start IDLE without one.
+ */
+export const applySceneOperation = (scenes: Scene[], id: number, op: SceneOperation): SceneOpResult => {
+  const index = scenes.findIndex(s => s.id === id);
+  if (index < 0) return renumberScenes(scenes);
+  const target = scenes[index];
+  const next = [...scenes];
+
+  switch (op) {
+    case 'delete':
+      next.splice(index, 1);
+      break;
+    case 'insertAfter':
+      next.splice(index + 1, 0, createBlankScene(target));
+      break;
+    case 'split': {
+      const [first, second] = splitTextInHalf(target.scriptSegment);
+      next.splice(index, 1,
+        // The caption was a translation of the whole segment, so neither half keeps it
+        { ...target, scriptSegment: first, caption: undefined, durationSec: estimateNarrationSeconds(first) },
+        { ...createBlankScene(target), scriptSegment: second, englishPrompt: target.englishPrompt, durationSec: estimateNarrationSeconds(second) },
+      );
+      break;
+    }
+    case 'mergeNext': {
+      const following = scenes[index + 1];
+      if (!following) break;
+      next.splice(index, 2, {
+        ...target,
+        scriptSegment: [target.scriptSegment, following.scriptSegment].filter(Boolean).join(' '),
+        caption: [target.caption, following.caption].filter(Boolean).join(' ') || undefined,
+        englishPrompt: [target.englishPrompt, following.englishPrompt].filter(Boolean).join(' Then, '),
+        characterIds: Array.from(new Set([...target.characterIds, ...following.characterIds])),
+        durationSec: Math.round((target.durationSec + following.durationSec) * 10) / 10,
+        // Keep both scenes' takes so a finished frame is never thrown away
+        takes: [...target.takes, ...following.takes],
+        selectedTakeId: getSelectedTake(target)?.id ?? following.selectedTakeId,
+        status: target.takes.length > 0 || following.takes.length === 0 ? target.status : following.status,
+      });
+      break;
+    }
+  }
+  return renumberScenes(next);
+};
+
+export const deleteScenes = (scenes: Scene[], ids: Set<number>): SceneOpResult =>
+  renumberScenes(scenes.filter(s => !ids.has(s.id)));
+
+/**
+ * Moves the scene with `fromId` to the position currently held by `toId`.
+ */
+export const moveScene = (scenes: Scene[], fromId: number, toId: number): SceneOpResult => {
+  const fromIndex = scenes.findIndex(s => s.id === fromId);
+  const toIndex = scenes.findIndex(s => s.id === toId);
+  if (fromIndex < 0 || toIndex < 0 || fromIndex === toIndex) return renumberScenes(scenes);
+  const next = [...scenes];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return renumberScenes(next);
+};
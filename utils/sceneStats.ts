@@ -0,0 +1,16 @@
+import { Scene, SceneStatus } from '../types';
+
+export interface SceneStats {
+  total: number;
+  success: number;
+  error: number;
+  pending: number; // Not generated yet, queued or in progress
+}
+
+// Summary numbers shown on the dashboard and on the contact sheet cover
+export const getSceneStats = (scenes: Scene[]): SceneStats => ({
+  total: scenes.length,
+  success: scenes.filter(s => s.status === SceneStatus.SUCCESS).length,
+  error: scenes.filter(s => s.status === SceneStatus.ERROR).length,
+  pending: scenes.filter(s => [SceneStatus.IDLE, SceneStatus.PENDING, SceneStatus.GENERATING, SceneStatus.RETRYING].includes(s.status)).length,
+});
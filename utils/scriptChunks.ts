@@ -0,0 +1,54 @@
+export interface ScriptChunk {
+  text: string; // Part of the script to turn into scenes
+  context: string; // Tail of the previous chunk, given as read-only context (empty for the first chunk)
+}
+
+// Sentence ends in Korean/English/Japanese text, used when a single paragraph is too long
+const SENTENCE_BREAK = /(?<=[.!?。？！])\s+/;
+
+const splitLongParagraph = (paragraph: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of paragraph.split(SENTENCE_BREAK)) {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+// Paragraphs are separated by blank lines; this is also the unit the re-analysis diff works on
+export const splitParagraphs = (script: string): string[] =>
+  script
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean);
+
+/**
+ * Splits a script into chunks of at most ~`maxChars`, cutting at paragraph boundaries
+ * (sentence boundaries for oversized paragraphs). Each chunk carries the end of the
+ * previous one as context so scenes at the seam stay coherent without being duplicated.
+ */
+export const splitScriptIntoChunks = (script: string, maxChars: number, contextChars: number): ScriptChunk[] => {
+  const paragraphs = splitParagraphs(script)
+    .flatMap(p => p.length > maxChars ? splitLongParagraph(p, maxChars) : [p]);
+
+  const texts: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      texts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) texts.push(current);
+
+  return texts.map((text, index) => ({
+    text,
+    context: index > 0 ? texts[index - 1].slice(-contextChars) : '',
+  }));
+};
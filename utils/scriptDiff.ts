@@ -0,0 +1,163 @@
+import { Scene, SceneStatus } from '../types';
+import { splitParagraphs } from './scriptChunks';
+import { renumberScenes, SceneOpResult } from './sceneOps';
+
+// A run of changed paragraphs together with the scenes that were analysed from it
+export interface ScriptSection {
+  sceneStart: number; // Index of the first affected scene (insert position when nothing is removed)
+  removedScenes: Scene[]; // Scenes belonging to the old paragraphs; replaced by the re-analysis
+  oldText: string;
+  newText: string; // Empty when paragraphs were only deleted
+  context: string; // Paragraph before the section in the new script
+}
+
+export type SceneChangeKind = 'kept' | 'added' | 'removed' | 'changed';
+
+export interface SceneChange {
+  kind: SceneChangeKind;
+  before?: Scene; // Absent for 'added'
+  after?: Scene; // Absent for 'removed'
+}
+
+export interface ReviewedSection extends ScriptSection {
+  changes: SceneChange[];
+}
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+interface ParagraphHunk {
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+}
+
+// Longest-common-subsequence diff over whole paragraphs; returns the non-matching runs
+const diffParagraphs = (oldParas: string[], newParas: string[]): ParagraphHunk[] => {
+  const n = oldParas.length;
+  const m = newParas.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldParas[i] === newParas[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: ParagraphHunk[] = [];
+  let i = 0;
+  let j = 0;
+  let open: ParagraphHunk | null = null;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldParas[i] === newParas[j]) {
+      if (open) hunks.push(open);
+      open = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!open) open = { oldStart: i, oldEnd: i, newStart: j, newEnd: j };
+    if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      open.newEnd = ++j;
+    } else {
+      open.oldEnd = ++i;
+    }
+  }
+  if (open) hunks.push(open);
+  return hunks;
+};
+
+/**
+ * Finds the paragraph each scene was analysed from. Scenes are matched in order, so the result
+ * never goes backwards; scenes whose text is not in the script (edited, implied insert shots)
+ * stay with the paragraph of the scene before them.
+ */
+const locateSceneParagraphs = (scenes: Scene[], paragraphs: string[]): number[] => {
+  const normalized = paragraphs.map(normalizeText);
+  let current = 0;
+  return scenes.map(scene => {
+    const segment = normalizeText(scene.scriptSegment);
+    const probes = [segment, segment.slice(0, 15)].filter(Boolean);
+    for (const probe of probes) {
+      const found = normalized.findIndex((p, index) => index >= current && p.includes(probe));
+      if (found >= 0) {
+        current = found;
+        break;
+      }
+    }
+    return current;
+  });
+};
+
+/**
+ * Compares the analysed script with the current one and lists the sections that need a new analysis.
+ * Scenes outside these sections are untouched by re-analysis.
+ */
+export const planScriptSections = (analyzedScript: string, script: string, scenes: Scene[]): ScriptSection[] => {
+  const oldParas = splitParagraphs(analyzedScript).map(normalizeText);
+  const newParas = splitParagraphs(script).map(normalizeText);
+  const sceneParas = locateSceneParagraphs(scenes, oldParas);
+
+  return diffParagraphs(oldParas, newParas).map(hunk => {
+    let sceneStart = sceneParas.findIndex(p => p >= hunk.oldStart);
+    if (sceneStart < 0) sceneStart = scenes.length;
+    const removedScenes = scenes.filter((_, index) => sceneParas[index] >= hunk.oldStart && sceneParas[index] < hunk.oldEnd);
+    return {
+      sceneStart,
+      removedScenes,
+      oldText: oldParas.slice(hunk.oldStart, hunk.oldEnd).join('\n\n'),
+      newText: newParas.slice(hunk.newStart, hunk.newEnd).join('\n\n'),
+      context: hunk.newStart > 0 ? newParas[hunk.newStart - 1] : '',
+    };
+  });
+};
+
+/**
+ * Lines up a section's old scenes with the freshly analysed ones.
+ * Scenes whose script text did not change are kept as they are (id, prompt, takes); the rest are
+ * paired in order as 'changed', which keeps the old takes as history but queues a new image.
+ */
+export const reconcileSectionScenes = (removedScenes: Scene[], analyzed: Scene[]): SceneChange[] => {
+  const unmatched = [...removedScenes];
+  const matched = analyzed.map(scene => {
+    const index = unmatched.findIndex(old => normalizeText(old.scriptSegment) === normalizeText(scene.scriptSegment));
+    return index >= 0 ? unmatched.splice(index, 1)[0] : undefined;
+  });
+
+  const changes: SceneChange[] = analyzed.map((scene, index) => {
+    const kept = matched[index];
+    if (kept) return { kind: 'kept', before: kept, after: kept };
+    // New scenes carry id 0 so they are left out of the selection remap
+    const fresh: Scene = { ...scene, id: 0 };
+    const previous = unmatched.shift();
+    if (!previous) return { kind: 'added', after: fresh };
+    return {
+      kind: 'changed',
+      before: previous,
+      after: { ...fresh, uid: previous.uid, takes: previous.takes, selectedTakeId: previous.selectedTakeId, status: SceneStatus.IDLE },
+    };
+  });
+  return [...changes, ...unmatched.map(before => ({ kind: 'removed' as const, before }))];
+};
+
+/**
+ * Splices reviewed sections into the scene list. Sections must come from planScriptSections for the same
+ * scene order; edits made to the scenes since then (prompts, new takes) are carried over by uid.
+ */
+export const applyScriptSections = (scenes: Scene[], sections: ReviewedSection[]): SceneOpResult => {
+  const current = new Map(scenes.map(s => [s.uid, s]));
+  const next = [...scenes];
+  // Back to front so earlier indexes stay valid; sections starting at the same scene keep their order
+  sections
+    .map((section, order) => ({ section, order }))
+    .sort((a, b) => b.section.sceneStart - a.section.sceneStart || b.order - a.order)
+    .forEach(({ section }) => {
+      const replacement = section.changes.flatMap(({ kind, after }) => {
+        if (!after) return [];
+        const latest = current.get(after.uid);
+        if (!latest) return [after];
+        return kind === 'kept' ? [latest] : [{ ...after, takes: latest.takes, selectedTakeId: latest.selectedTakeId }];
+      });
+      next.splice(section.sceneStart, section.removedScenes.length, ...replacement);
+    });
+  return renumberScenes(next);
+};
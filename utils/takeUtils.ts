@@ -0,0 +1,40 @@
+import { Scene, SceneTake, QaResult, StyleProfile } from '../types';
+
+export const createTakeId = (): string => Math.random().toString(36).substring(2, 10);
+
+export const createTake = (imageUrl: string, prompt: string, model: string, style?: StyleProfile): SceneTake => ({
+  id: createTakeId(),
+  imageUrl,
+  prompt,
+  model,
+  createdAt: new Date().toISOString(),
+  styleProfileId: style?.id,
+  styleProfileName: style?.name,
+});
+
+/**
+ * The take used for display and exports: the explicitly picked one, else the newest.
+ */
+export const getSelectedTake = (scene: Scene): SceneTake | undefined =>
+  scene.takes.find(t => t.id === scene.selectedTakeId) ?? scene.takes[scene.takes.length - 1];
+
+// New takes are appended and become the selected one; older takes stay available
+export const addTake = (scene: Scene, take: SceneTake): Scene => ({
+  ...scene,
+  takes: [...scene.takes, take],
+  selectedTakeId: take.id,
+});
+
+export const setTakeQa = (scene: Scene, takeId: string, qa: QaResult): Scene => ({
+  ...scene,
+  takes: scene.takes.map(t => t.id === takeId ? { ...t, qa } : t),
+});
+
+/**
+ * Highest QA score wins; ties go to the newer take. Takes without QA are ignored.
+ */
+export const getBestQaTake = (scene: Scene): SceneTake | undefined =>
+  scene.takes.reduce<SceneTake | undefined>((best, t) => {
+    if (!t.qa) return best;
+    return !best || t.qa.score >= (best.qa?.score ?? 0) ? t : best;
+  }, undefined);
@@ -0,0 +1,137 @@
+import { Scene, TimelineOptions } from '../types';
+import { TIMELINE_FRAME_SIZE } from '../constants';
+import { getCaptionText } from './captionUtils';
+
+export type TimelineFormat = 'srt' | 'edl' | 'fcpxml';
+
+export interface TimelineEntry {
+  scene: Scene;
+  fileName?: string; // Image file inside the ZIP's images/ folder; absent while the scene has no image
+  startFrame: number;
+  endFrame: number; // Exclusive
+}
+
+export interface SceneSlot {
+  scene: Scene;
+  start: number; // Seconds
+  end: number;
+}
+
+/**
+ * Places the scenes on the time axis. Scenes aligned to the narration (startSec) start there, which
+ * may leave gaps; the others follow the previous scene. Only without any alignment does a total
+ * runtime scale every duration by the same factor so the sequence ends exactly there.
+ */
+export const layoutScenes = (scenes: Scene[], totalRuntimeSec = 0): SceneSlot[] => {
+  const aligned = scenes.some(s => s.startSec !== undefined);
+  const natural = scenes.reduce((sum, s) => sum + s.durationSec, 0);
+  const scale = !aligned && totalRuntimeSec > 0 && natural > 0 ? totalRuntimeSec / natural : 1;
+  let cursor = 0;
+  return scenes.map(scene => {
+    const start = scene.startSec !== undefined ? Math.max(cursor, scene.startSec) : cursor;
+    cursor = start + scene.durationSec * scale;
+    return { scene, start, end: cursor };
+  });
+};
+
+// Every scene keeps its slot so cues stay in sync; `imageName` gives the scene's file name in the ZIP
+// (it depends on the image export format), or undefined for scenes without an image yet
+export const buildSceneTimeline = (scenes: Scene[], { fps, totalRuntimeSec }: TimelineOptions, imageName: (scene: Scene) => string | undefined): TimelineEntry[] => {
+  let previousEnd = 0;
+  return layoutScenes(scenes, totalRuntimeSec).map(({ scene, start, end }) => {
+    // Cut on the rounded running time so rounding never accumulates; every scene gets at least a frame
+    const startFrame = Math.max(previousEnd, Math.round(start * fps));
+    const endFrame = Math.max(startFrame + 1, Math.round(end * fps));
+    previousEnd = endFrame;
+    return { scene, fileName: imageName(scene), startFrame, endFrame };
+  });
+};
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+// HH:MM:SS,mmm
+const srtTime = (frame: number, fps: number): string => {
+  const ms = Math.round((frame / fps) * 1000);
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)},${pad(ms % 1000, 3)}`;
+};
+
+// HH:MM:SS:FF (non-drop frame)
+const timecode = (frame: number, fps: number): string => {
+  const seconds = Math.floor(frame / fps);
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}:${pad(frame % fps)}`;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildSrt = (timeline: TimelineEntry[], { fps, captions }: TimelineOptions): string =>
+  timeline
+    .map(entry => ({ entry, text: getCaptionText(entry.scene, captions) }))
+    .filter(({ text }) => text)
+    .map(({ entry, text }, i) => `${i + 1}\n${srtTime(entry.startFrame, fps)} --> ${srtTime(entry.endFrame, fps)}\n${text}\n`)
+    .join('\n');
+
+// CMX3600: one video event per still, source in/out covering its length; scenes without an image are black (BL)
+const buildEdl = (timeline: TimelineEntry[], { fps }: TimelineOptions, title: string): string => {
+  const events = timeline.map((entry, i) => {
+    const length = entry.endFrame - entry.startFrame;
+    const reel = entry.fileName ? 'AX' : 'BL';
+    return [
+      `${pad(i + 1, 3)}  ${reel}       V     C        ${timecode(0, fps)} ${timecode(length, fps)} ${timecode(entry.startFrame, fps)} ${timecode(entry.endFrame, fps)}`,
+      entry.fileName ? `* FROM CLIP NAME: ${entry.fileName}` : `* SCENE ${entry.scene.id}: NO IMAGE`,
+    ].join('\n');
+  });
+  return `TITLE: ${title}\nFCM: NON-DROP FRAME\n\n${events.join('\n\n')}\n`;
+};
+
+// FCPXML 1.8 (Final Cut Pro, DaVinci Resolve); assets use paths relative to the ZIP root
+const buildFcpxml = (timeline: TimelineEntry[], { fps }: TimelineOptions, title: string): string => {
+  const time = (frames: number) => `${frames}/${fps}s`;
+  const totalFrames = timeline.length > 0 ? timeline[timeline.length - 1].endFrame : 0;
+  const gap = (offset: number, duration: number) =>
+    `            <gap name="Gap" offset="${time(offset)}" start="0s" duration="${time(duration)}"/>`;
+  const assets = timeline.flatMap((entry, i) => entry.fileName
+    ? [`    <asset id="a${i + 1}" name="${escapeXml(entry.fileName)}" src="./images/${escapeXml(entry.fileName)}" start="0s" duration="0s" hasVideo="1" format="r1"/>`]
+    : []);
+  // The spine has no holes, so silence before an aligned scene and scenes without an image become gaps
+  const clips = timeline.flatMap((entry, i) => {
+    const previousEnd = i > 0 ? timeline[i - 1].endFrame : 0;
+    const silence = entry.startFrame > previousEnd ? [gap(previousEnd, entry.startFrame - previousEnd)] : [];
+    const length = entry.endFrame - entry.startFrame;
+    return [...silence, entry.fileName
+      ? `            <video ref="a${i + 1}" name="${escapeXml(entry.fileName)}" offset="${time(entry.startFrame)}" start="0s" duration="${time(length)}"/>`
+      : gap(entry.startFrame, length)];
+  });
+  const name = escapeXml(title);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.8">
+  <resources>
+    <format id="r1" frameDuration="${time(1)}" width="${TIMELINE_FRAME_SIZE.width}" height="${TIMELINE_FRAME_SIZE.height}"/>
+${assets.join('\n')}
+  </resources>
+  <library>
+    <event name="${name}">
+      <project name="${name}">
+        <sequence format="r1" duration="${time(totalFrames)}" tcStart="0s" tcFormat="NDF">
+          <spine>
+${clips.join('\n')}
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`;
+};
+
+/**
+ * Renders a timeline in one of the editor/subtitle formats.
+ */
+export const renderTimeline = (format: TimelineFormat, timeline: TimelineEntry[], options: TimelineOptions, title: string): string => {
+  switch (format) {
+    case 'srt': return buildSrt(timeline, options);
+    case 'edl': return buildEdl(timeline, options, title);
+    case 'fcpxml': return buildFcpxml(timeline, options, title);
+  }
+};